@@ -6,8 +6,15 @@ import { ThemeProvider, useTheme } from "@/components/ThemeProvider";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ActionButtonList } from "./components/ActionButtonList";
 import {VaultManager} from "@/components/VaultManager";
+import { VaultAdmin } from "@/components/VaultAdmin";
+import { NFTPositionsList } from "@/components/NFTPositions";
+import { TransactionHistory } from "@/components/TransactionHistory";
 import { SelectionProvider } from "@/context/SelectionContext";
 import { useNetworkSync } from '@/lib/useNetworkSync';
+import { useProgramEvents } from '@/lib/useProgramEvents';
+import { useAccountSubscriptions } from '@/lib/useAccountSubscriptions';
+import { useTransactionTracker } from '@/lib/useTransactionTracker';
+import { useRpcHealth } from '@/lib/useRpcHealth';
 import { AssetIdentityHub } from "./components/AssetIdentityHub";
 
 import {
@@ -113,6 +120,10 @@ function ThemeSync() {
 
 export function App() {
   useNetworkSync();
+  useProgramEvents();
+  useAccountSubscriptions();
+  useTransactionTracker();
+  useRpcHealth();
   return (
     <ThemeProvider>
       <WagmiProvider config={wagmiAdapter.wagmiConfig}>
@@ -125,6 +136,9 @@ export function App() {
                 <Routes>
                   <Route path="/identitymanager" element={<AssetIdentityHub />} />
                   <Route path="/vault" element={<VaultManager />} />
+                  <Route path="/vault/admin" element={<VaultAdmin />} />
+                  <Route path="/positions" element={<NFTPositionsList />} />
+                  <Route path="/history" element={<TransactionHistory />} />
                 </Routes>
               </div>
             </Router>
@@ -5,8 +5,11 @@ import {
 } from "@reown/appkit/react";
 
 import { Button } from "@/components/ui/button";
-import { Wallet, Coins, Zap } from "lucide-react";
+import { Wallet, Coins, Zap, KeyRound, Layers, History } from "lucide-react";
 import { ModeToggle } from "@/components/ModeToggle";
+import { SettingsPanel } from "@/components/SettingsPanel";
+import { TransactionTrackerMenu } from "@/components/TransactionTrackerMenu";
+import { NetworkPicker } from "@/components/NetworkPicker";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 import {
@@ -15,8 +18,8 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { useNetworkCycle } from "@/lib/useNetWorkCycle";
 import { useNavigate, useLocation } from "react-router-dom";
+import { VaultUtils } from "@/config/programs";
 
 export const ActionButtonList = () => {
   const { disconnect } = useDisconnect();
@@ -26,8 +29,8 @@ export const ActionButtonList = () => {
 
   const eip155AccountState = useAppKitAccount({ namespace: "eip155" });
   const solanaAccountState = useAppKitAccount({ namespace: "solana" });
-  const { switchToNext } = useNetworkCycle();
   const { address } = useAppKitAccount();
+  const isVaultOwner = VaultUtils.isVaultOwner(solanaAccountState.address);
 
   const handleDisconnect = async () => {
     try {
@@ -44,6 +47,12 @@ export const ActionButtonList = () => {
         return "identitymanager";
       case "/vault":
         return "vault";
+      case "/vault/admin":
+        return "vaultadmin";
+      case "/positions":
+        return "positions";
+      case "/history":
+        return "history";
       default:
         return "identitymanager"; // Default tab
     }
@@ -59,6 +68,15 @@ export const ActionButtonList = () => {
       case "vault":
         navigate("/vault");
         break;
+      case "vaultadmin":
+        navigate("/vault/admin");
+        break;
+      case "positions":
+        navigate("/positions");
+        break;
+      case "history":
+        navigate("/history");
+        break;
       default:
         navigate("/identitymanager");
     }
@@ -79,6 +97,20 @@ export const ActionButtonList = () => {
                 <Coins className="w-4 h-4" />
                 NFT Vault
               </TabsTrigger>
+              <TabsTrigger value="positions" className="flex items-center gap-2">
+                <Layers className="w-4 h-4" />
+                Positions
+              </TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center gap-2">
+                <History className="w-4 h-4" />
+                History
+              </TabsTrigger>
+              {isVaultOwner && (
+                <TabsTrigger value="vaultadmin" className="flex items-center gap-2">
+                  <KeyRound className="w-4 h-4" />
+                  Vault Admin
+                </TabsTrigger>
+              )}
             </TabsList>
           </Tabs>
         )}
@@ -91,8 +123,10 @@ export const ActionButtonList = () => {
         )}
       </div>
 
-      {/* Right side - Wallet & Theme */}
+      {/* Right side - Wallet, Settings & Theme */}
       <div className="flex items-center gap-2">
+        {solanaAccountState.isConnected && <TransactionTrackerMenu />}
+        <NetworkPicker />
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="outline" size="sm">
@@ -130,14 +164,12 @@ export const ActionButtonList = () => {
                 Connect Solana
               </DropdownMenuItem>
             )}
-            <DropdownMenuItem onClick={switchToNext}>
-              Switch Network
-            </DropdownMenuItem>
             <DropdownMenuItem onClick={handleDisconnect}>
               Disconnect
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <SettingsPanel />
         <ModeToggle />
       </div>
     </div>
@@ -1,12 +1,16 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { BN } from '@coral-xyz/anchor';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
 import { useAppKitAccount } from '@reown/appkit/react';
 
 // Import your new hooks
 import { useToken } from '@/lib/useToken';
 import { useUniqueId } from '@/lib/useUniqueId';
+import { useProgramEvent } from '@/lib/useProgramEvents';
 import { useTokenSelection, useNFTSelection } from '@/context/SelectionContext';
+import { useNetworkStore, selectConnection } from '@/store/networkStore';
+import type { UserToken } from '@/store/tokenStore';
+import { fetchMintDecimals, formatTokenAmount, parseTokenAmount } from '@/lib/tokenAmount';
 
 // UI Components
 import { Button } from '@/components/ui/button';
@@ -28,12 +32,19 @@ import {
 
 // Import config for default mint
 import { CONFIG } from '@/config/programs';
+import { formatProgramError } from '@/lib/programErrors';
+
+// Feature panels
+import { CrossChainMintPanel } from '@/components/CrossChainMintPanel';
+import { TokenFaucetPanel } from '@/components/TokenFaucetPanel';
+import { ExplorerLink } from '@/components/shared/ExplorerLink';
+import { shortenKey } from '@/lib/explorer';
 
 // Custom hooks for unified state management
 const useAssetReadiness = () => {
   const { userTokens, loading: tokenLoading, error: tokenError } = useToken();
   const { 
-    collection, 
+    userNFTs, 
     isCollectionInitialized, 
     loading: nftLoading, 
     error: nftError 
@@ -42,8 +53,12 @@ const useAssetReadiness = () => {
   const { selectedNFT } = useNFTSelection();
 
   return useMemo(() => {
-    const hasTokens = userTokens.length > 0;
-    const hasNFTs = collection && collection.mintToUniqueId && collection.mintToUniqueId.length > 0;
+    // Only funded vault assets count towards setup; the portfolio lists everything
+    const depositableTokens = userTokens.filter(
+      (token) => token.isVaultAsset && !token.isFrozen && !token.amount.isZero()
+    );
+    const hasTokens = depositableTokens.length > 0;
+    const hasNFTs = userNFTs.length > 0;
     const hasSelectedToken = !!selectedTokenMint;
     const hasSelectedNFT = !!selectedNFT;
     
@@ -51,7 +66,7 @@ const useAssetReadiness = () => {
       // Asset status
       tokens: {
         available: hasTokens,
-        count: userTokens.length,
+        count: depositableTokens.length,
         selected: hasSelectedToken,
         loading: tokenLoading,
         error: tokenError
@@ -59,7 +74,7 @@ const useAssetReadiness = () => {
       nfts: {
         collectionReady: isCollectionInitialized,
         available: hasNFTs,
-        count: collection?.mintToUniqueId?.length || 0,
+        count: userNFTs.length,
         selected: hasSelectedNFT,
         loading: nftLoading,
         error: nftError
@@ -71,13 +86,14 @@ const useAssetReadiness = () => {
       errors: [tokenError, nftError].filter(Boolean)
     };
   }, [
-    userTokens, collection, isCollectionInitialized, selectedTokenMint, selectedNFT,
+    userTokens, userNFTs, isCollectionInitialized, selectedTokenMint, selectedNFT,
     tokenLoading, nftLoading, tokenError, nftError
   ]);
 };
 
 const useAssetActions = () => {
   const { mintTokens, refreshAllData: refreshTokens } = useToken();
+  const connection = useNetworkStore(selectConnection);
   const { 
     initializeCollection, 
     mintNFT, 
@@ -96,10 +112,13 @@ const useAssetActions = () => {
 
   const mintTokensQuick = async (amount: string) => {
     const targetMint = CONFIG.VAULT_ASSET_MINT; // Use from config
-    const decimals = 6; // Adjust based on your token decimals
-    const amountBN = new BN(parseFloat(amount)).mul(new BN(10).pow(new BN(decimals)));
-    
-    const tx = await mintTokens(amountBN, targetMint);
+    if (!connection) throw new Error("Network not ready");
+
+    const decimals = await fetchMintDecimals(connection, targetMint);
+    const parsed = parseTokenAmount(amount, decimals);
+    if (parsed.error !== null) throw new Error(parsed.error);
+
+    const tx = await mintTokens(parsed.amount, targetMint);
     if (tx) {
       await refreshTokens();
       // Auto-select the minted token
@@ -165,13 +184,32 @@ export const AssetIdentityHub: React.FC = () => {
   const { selectedNFT, setSelectedNFT } = useNFTSelection();
 
   // Get data from hooks
-  const { userTokens, currentNetwork } = useToken();
-  const { collection } = useUniqueId();
+  const { userTokens, currentNetwork, txError: tokenTxError } = useToken();
+  const { collection, userNFTs, txError: nftTxError } = useUniqueId();
 
-  const showNotification = (type: 'success' | 'error', message: string) => {
+  const showNotification = useCallback((type: 'success' | 'error', message: string) => {
     setNotification({ type, message });
     setTimeout(() => setNotification({ type: null, message: '' }), 5000);
-  };
+  }, []);
+
+  // Surface decoded program errors from the token / NFT hooks
+  useEffect(() => {
+    if (tokenTxError) {
+      showNotification('error', `Token minting failed: ${tokenTxError.userMessage} (${formatProgramError(tokenTxError)})`);
+    }
+  }, [tokenTxError, showNotification]);
+
+  useEffect(() => {
+    if (nftTxError) {
+      showNotification('error', `NFT transaction failed: ${nftTxError.userMessage} (${formatProgramError(nftTxError)})`);
+    }
+  }, [nftTxError, showNotification]);
+
+  // Pick up mints from other sessions without a manual refresh
+  useProgramEvent('nftMinted', (event) => {
+    console.log('[AssetIdentityHub] NftMinted received:', event.signature);
+    actions.refreshAll();
+  });
 
   const copyToClipboard = async (text: string, label: string) => {
     try {
@@ -244,7 +282,12 @@ export const AssetIdentityHub: React.FC = () => {
     }
   };
 
-  const handleTokenSelect = (tokenAccount: PublicKey, mint: PublicKey) => {
+  const handleTokenSelect = (token: UserToken) => {
+    if (token.isFrozen) {
+      showNotification('error', 'This token account is frozen and cannot be used');
+      return;
+    }
+    const { account: tokenAccount, mint } = token;
     setSelectedTokenAccount(tokenAccount);
     setSelectedTokenMint(mint);
     showNotification('success', 'Token selected for operations');
@@ -255,10 +298,6 @@ export const AssetIdentityHub: React.FC = () => {
     showNotification('success', 'NFT selected for operations');
   };
 
-  const formatBalance = (balance: number, decimals: number = 6) => {
-    return (balance / Math.pow(10, decimals)).toLocaleString();
-  };
-
   // Not connected state
   if (!isConnected) {
     return (
@@ -312,7 +351,13 @@ export const AssetIdentityHub: React.FC = () => {
               </Label>
               <div className="flex items-center gap-2">
                 <Badge variant="outline" className="font-mono">
-                  {address?.slice(0, 4)}...{address?.slice(-4)}
+                  {address ? (
+                    <ExplorerLink type="address" value={address}>
+                      {shortenKey(address)}
+                    </ExplorerLink>
+                  ) : (
+                    'Not connected'
+                  )}
                 </Badge>
                 <Button
                   size="icon"
@@ -433,9 +478,11 @@ export const AssetIdentityHub: React.FC = () => {
 
       {/* Main Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="manage">Manage Assets</TabsTrigger>
+          <TabsTrigger value="faucet">Faucet</TabsTrigger>
+          <TabsTrigger value="crosschain">Cross-Chain</TabsTrigger>
           <TabsTrigger value="advanced">Advanced</TabsTrigger>
         </TabsList>
 
@@ -461,9 +508,7 @@ export const AssetIdentityHub: React.FC = () => {
                     <div className="p-3 bg-muted rounded-lg">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="font-mono text-sm">
-                            {selectedTokenMint.toBase58().slice(0, 8)}...
-                          </p>
+                          <ExplorerLink type="token" value={selectedTokenMint} className="font-mono text-sm" />
                           <p className="text-xs text-muted-foreground">
                             Ready for operations
                           </p>
@@ -492,9 +537,7 @@ export const AssetIdentityHub: React.FC = () => {
                     <div className="p-3 bg-muted rounded-lg">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="font-mono text-sm">
-                            {selectedNFT.toBase58().slice(0, 8)}...
-                          </p>
+                          <ExplorerLink type="token" value={selectedNFT} className="font-mono text-sm" />
                           <p className="text-xs text-muted-foreground">
                             Identity verified
                           </p>
@@ -602,28 +645,40 @@ export const AssetIdentityHub: React.FC = () => {
                 <ScrollArea className="h-[300px]">
                   <div className="space-y-2">
                     {userTokens.length > 0 ? (
-                      userTokens.map((token, index) => (
+                      userTokens.map((token) => (
                         <Card
-                          key={index}
+                          key={token.account.toBase58()}
                           className={`p-3 cursor-pointer transition-colors ${
                             selectedTokenAccount?.equals(token.account)
                               ? "ring-2 ring-primary bg-primary/5"
                               : "hover:bg-muted"
                           }`}
-                          onClick={() => handleTokenSelect(token.account, token.mint)}
+                          onClick={() => handleTokenSelect(token)}
                         >
                           <div className="flex items-center justify-between">
                             <div className="space-y-1">
                               <div className="flex items-center gap-2">
                                 <Badge variant="outline" className="font-mono text-xs">
-                                  {token.mint.toBase58().slice(0, 8)}...
+                                  <ExplorerLink type="token" value={token.mint} />
                                 </Badge>
                                 {selectedTokenAccount?.equals(token.account) && (
                                   <Check className="h-4 w-4 text-primary" />
                                 )}
                               </div>
+                              <div className="flex flex-wrap gap-1">
+                                {token.isVaultAsset && <Badge className="text-xs">Vault asset</Badge>}
+                                {token.programId.equals(TOKEN_2022_PROGRAM_ID) && (
+                                  <Badge variant="secondary" className="text-xs">Token-2022</Badge>
+                                )}
+                                {!token.isAssociated && (
+                                  <Badge variant="secondary" className="text-xs">Auxiliary account</Badge>
+                                )}
+                                {token.isFrozen && (
+                                  <Badge variant="destructive" className="text-xs">Frozen</Badge>
+                                )}
+                              </div>
                               <p className="text-sm text-muted-foreground">
-                                Balance: {formatBalance(token.balance, token.decimals)}
+                                Balance: {formatTokenAmount(token.amount, token.decimals)}
                               </p>
                             </div>
                             <Button
@@ -667,9 +722,8 @@ export const AssetIdentityHub: React.FC = () => {
               <CardContent>
                 <ScrollArea className="h-[300px]">
                   <div className="space-y-2">
-                    {readiness.nfts.available && collection?.mintToUniqueId ? (
-                      collection.mintToUniqueId.map((item, index) => {
-                        const tokenData = collection.tokenIdToUniqueId[index];
+                    {readiness.nfts.available ? (
+                      userNFTs.map((item) => {
                         return (
                           <Card
                             key={item.mint.toBase58()}
@@ -684,7 +738,7 @@ export const AssetIdentityHub: React.FC = () => {
                               <div className="space-y-1">
                                 <div className="flex items-center gap-2">
                                   <Badge variant="outline" className="font-mono text-xs">
-                                    NFT #{tokenData?.tokenId?.toString() || index + 1}
+                                    NFT #{item.tokenId}
                                   </Badge>
                                   {selectedNFT?.equals(item.mint) && (
                                     <Check className="h-4 w-4 text-primary" />
@@ -729,6 +783,22 @@ export const AssetIdentityHub: React.FC = () => {
           </div>
         </TabsContent>
 
+        {/* Faucet Tab */}
+        <TabsContent value="faucet" className="space-y-4">
+          <TokenFaucetPanel
+            onCopyToClipboard={copyToClipboard}
+            onNotify={showNotification}
+          />
+        </TabsContent>
+
+        {/* Cross-Chain Tab */}
+        <TabsContent value="crosschain" className="space-y-4">
+          <CrossChainMintPanel
+            onCopyToClipboard={copyToClipboard}
+            onNotify={showNotification}
+          />
+        </TabsContent>
+
         {/* Advanced Tab */}
         <TabsContent value="advanced" className="space-y-4">
           <Card>
@@ -795,7 +865,7 @@ export const AssetIdentityHub: React.FC = () => {
                     <div>
                       <Label className="text-sm text-muted-foreground">Authority</Label>
                       <div className="flex items-center gap-2">
-                        <code className="text-xs">{collection.authority.toBase58().slice(0, 8)}...</code>
+                        <ExplorerLink type="address" value={collection.authority} className="font-mono text-xs" />
                         <Button
                           size="icon"
                           variant="ghost"
@@ -850,8 +920,12 @@ export const AssetIdentityHub: React.FC = () => {
                       readiness,
                       userTokens: userTokens.map(t => ({
                         mint: t.mint.toBase58(),
-                        balance: t.balance,
-                        decimals: t.decimals
+                        account: t.account.toBase58(),
+                        amount: t.amount.toString(),
+                        decimals: t.decimals,
+                        isAssociated: t.isAssociated,
+                        isFrozen: t.isFrozen,
+                        isVaultAsset: t.isVaultAsset
                       })),
                       collection: collection ? {
                         name: collection.name,
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { useAccount } from 'wagmi';
+
+// Import hooks
+import { useUniqueId } from '@/lib/useUniqueId';
+import { shortenKey } from '@/lib/explorer';
+import { useNFTSelection } from '@/context/SelectionContext';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Icons
+import { Globe, Loader2, Send, Info, Copy, AlertCircle } from 'lucide-react';
+
+// Import config
+import { networks } from '@/config';
+import { WormholeUtils } from '@/config/programs';
+import { ExplorerLink } from '@/components/shared/ExplorerLink';
+
+interface CrossChainMintPanelProps {
+  onCopyToClipboard: (text: string, label: string) => void;
+  onNotify: (type: 'success' | 'error', message: string) => void;
+}
+
+// EVM networks configured in AppKit that have a known Wormhole chain id
+const getTargetChains = () =>
+  networks
+    // EVM networks use numeric chain ids, Solana networks use genesis-hash strings
+    .filter((network) => typeof network.id === 'number')
+    .map((network) => ({
+      name: network.name,
+      evmChainId: Number(network.id),
+      wormholeChainId: WormholeUtils.getWormholeChainId(network.id),
+    }))
+    .filter((chain): chain is { name: string; evmChainId: number; wormholeChainId: number } =>
+      chain.wormholeChainId !== null
+    );
+
+export const CrossChainMintPanel: React.FC<CrossChainMintPanelProps> = ({
+  onCopyToClipboard,
+  onNotify,
+}) => {
+  const { userNFTs, crossChainRequests, collection, requestCrossChainMint } = useUniqueId();
+  const { selectedNFT } = useNFTSelection();
+  const { address: evmAddress } = useAccount();
+
+  const targetChains = useMemo(() => getTargetChains(), []);
+
+  const [targetChainId, setTargetChainId] = useState<string>(
+    targetChains[0] ? String(targetChains[0].wormholeChainId) : ''
+  );
+  const [recipient, setRecipient] = useState('');
+  const [nftMint, setNftMint] = useState<string>(selectedNFT?.toBase58() ?? '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Default the recipient to the connected EVM wallet until the user types one
+  useEffect(() => {
+    if (evmAddress) {
+      setRecipient((current) => current || evmAddress);
+    }
+  }, [evmAddress]);
+
+  useEffect(() => {
+    if (selectedNFT) {
+      setNftMint(selectedNFT.toBase58());
+    }
+  }, [selectedNFT]);
+
+  const supportError = useMemo(
+    () => (collection ? WormholeUtils.getCrossChainSupportError(collection.wormholeProgramId) : null),
+    [collection]
+  );
+
+  const recipientValid = /^0x[0-9a-fA-F]{40}$/.test(recipient.trim());
+  const canSubmit = !!nftMint && !!targetChainId && recipientValid && !!collection && !supportError && !isSubmitting;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const request = await requestCrossChainMint(
+        new PublicKey(nftMint),
+        Number(targetChainId),
+        recipient.trim()
+      );
+      if (request) {
+        onNotify(
+          'success',
+          request.sequence !== null
+            ? `Cross-chain mint requested (sequence ${request.sequence})`
+            : 'Cross-chain mint requested'
+        );
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const chainName = (wormholeChainId: number) =>
+    targetChains.find((c) => c.wormholeChainId === wormholeChainId)?.name ?? `Chain ${wormholeChainId}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-4 w-4" />
+          Cross-Chain Identity
+        </CardTitle>
+        <CardDescription>
+          Send an identity NFT to an EVM chain through Wormhole
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {collection && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            Wormhole program:
+            <ExplorerLink type="address" value={collection.wormholeProgramId} className="font-mono text-xs" />
+          </div>
+        )}
+
+        {supportError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{supportError}</AlertDescription>
+          </Alert>
+        )}
+
+        {targetChains.length === 0 ? (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              No EVM network with a Wormhole chain id is configured.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Identity NFT</Label>
+              <Select value={nftMint} onValueChange={setNftMint}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select an NFT" />
+                </SelectTrigger>
+                <SelectContent>
+                  {userNFTs.map((nft) => (
+                    <SelectItem key={nft.mint.toBase58()} value={nft.mint.toBase58()}>
+                      NFT #{nft.tokenId} ({shortenKey(nft.mint)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Target Chain</Label>
+              <Select value={targetChainId} onValueChange={setTargetChainId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a chain" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetChains.map((chain) => (
+                    <SelectItem key={chain.wormholeChainId} value={String(chain.wormholeChainId)}>
+                      {chain.name} (Wormhole {chain.wormholeChainId})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-full space-y-2">
+              <Label htmlFor="evm-recipient">EVM Recipient</Label>
+              <Input
+                id="evm-recipient"
+                className="font-mono text-xs"
+                placeholder="0x..."
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+              />
+              {!evmAddress && (
+                <p className="text-xs text-muted-foreground">
+                  Connect an EVM wallet to fill this in automatically.
+                </p>
+              )}
+              {recipient && !recipientValid && (
+                <p className="text-xs text-destructive">Enter a 20-byte hex address</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <Button onClick={handleSubmit} disabled={!canSubmit} className="w-full">
+          {isSubmitting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="mr-2 h-4 w-4" />
+          )}
+          Request Cross-Chain Mint
+        </Button>
+
+        {/* Requests sent from this session */}
+        {crossChainRequests.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold text-sm">Recent Requests</h3>
+            {crossChainRequests.map((request) => (
+              <div
+                key={request.signature}
+                className="flex items-center justify-between p-2 rounded-lg bg-muted text-sm"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{chainName(request.targetChainId)}</Badge>
+                    <Badge variant={request.sequence !== null ? 'default' : 'secondary'}>
+                      {request.sequence !== null ? `Seq ${request.sequence}` : 'Sequence unknown'}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {request.recipient.slice(0, 10)}... · {new Date(request.requestedAt).toLocaleTimeString()} ·{' '}
+                    <ExplorerLink type="tx" value={request.signature} />
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={() => onCopyToClipboard(request.signature, 'Transaction signature')}
+                >
+                  <Copy className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
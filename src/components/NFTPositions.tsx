@@ -1,120 +1,394 @@
-import React, { useEffect, useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { useVaultNFT, NFTPosition } from '@/lib/useVault';
-import { PublicKey } from '@solana/web3.js';
-import { BN } from '@coral-xyz/anchor';
+import React, { useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+
+// Import hooks
+import { useVault, TransactionStatus } from "@/lib/useVault";
+import { useUniqueId } from "@/lib/useUniqueId";
+import type { UserPosition } from "@/store/vaultStore";
+import type { MintedNFT } from "@/store/uniqueIdStore";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Toaster } from "@/components/ui/sonner";
+
+// Icons
+import {
+  AlertCircle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Layers,
+  Loader2,
+  RefreshCw,
+  Wallet,
+} from "lucide-react";
+
+// Toast notifications
+import { toast } from "sonner";
+
+// Error decoding
+import { formatProgramError } from "@/lib/programErrors";
+import { parseTokenAmount } from "@/lib/tokenAmount";
+import { useMintDecimals } from "@/lib/useMintDecimals";
+
+// Shared components
+import { AppHeader } from "@/components/shared/AppHeader";
+import { ExplorerLink } from "@/components/shared/ExplorerLink";
+import { shortenKey } from "@/lib/explorer";
 
 interface NFTPositionCardProps {
-  position: NFTPosition;
-  onDeposit: (nftMint: PublicKey, amount: BN) => Promise<void>;
-  onWithdraw: (nftMint: PublicKey, shares: BN) => Promise<void>;
+  nft: MintedNFT;
+  position: UserPosition | null;
+  busy: boolean;
+  disabled: boolean;
+  onDeposit: (nftMint: PublicKey, amount: string) => Promise<boolean>;
+  onWithdraw: (nftMint: PublicKey, shares: string) => Promise<boolean>;
 }
 
-const NFTPositionCard: React.FC<NFTPositionCardProps> = ({ position, onDeposit, onWithdraw }) => {
-  const [depositAmount, setDepositAmount] = useState<string>('0');
-  const [withdrawAmount, setWithdrawAmount] = useState<string>('0');
+const NFTPositionCard: React.FC<NFTPositionCardProps> = ({
+  nft,
+  position,
+  busy,
+  disabled,
+  onDeposit,
+  onWithdraw,
+}) => {
+  const [depositAmount, setDepositAmount] = useState("");
+  const [withdrawShares, setWithdrawShares] = useState("");
+  const mint = nft.mint.toBase58();
+
+  const handleDeposit = async () => {
+    if (await onDeposit(nft.mint, depositAmount)) {
+      setDepositAmount("");
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (await onWithdraw(nft.mint, withdrawShares)) {
+      setWithdrawShares("");
+    }
+  };
 
   return (
-    <Card className="w-full max-w-md mb-4">
+    <Card>
       <CardHeader>
-        <CardTitle>{position.nftMint.toBase58().slice(0, 6)}...{position.nftMint.toBase58().slice(-4)}</CardTitle>
-        <CardDescription>Shares: {position.shares.toString()}</CardDescription>
+        <CardTitle className="flex items-center justify-between">
+          <span>Identity #{nft.tokenId}</span>
+          {position ? (
+            <Badge>Active</Badge>
+          ) : (
+            <Badge variant="secondary">No position</Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="font-mono text-xs">
+          <ExplorerLink type="token" value={mint}>
+            {shortenKey(mint, 8)}
+          </ExplorerLink>
+        </CardDescription>
       </CardHeader>
-      <CardContent className="space-y-2">
-        <div>Asset Value: {position.assetValue.toString()}</div>
-        <div>Deposited: {position.depositedAmount.toString()}</div>
-        {position.borrowedAmount && <div>Borrowed: {position.borrowedAmount.toString()}</div>}
-
-        <div className="flex gap-2 mt-2">
-          <div className="flex flex-col">
-            <Label htmlFor="deposit">Deposit Amount</Label>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div>
+            <p className="text-muted-foreground">Shares</p>
+            <p className="font-semibold">
+              {position ? position.shareAmount.toLocaleString() : "0"}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Asset Value</p>
+            <p className="font-semibold">
+              {position ? position.depositAmount.toLocaleString() : "0"}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Updated</p>
+            <p className="text-xs">
+              {position ? new Date(position.timestamp).toLocaleDateString() : "-"}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`deposit-${mint}`}>Deposit Amount</Label>
+          <div className="flex gap-2">
             <Input
-              id="deposit"
+              id={`deposit-${mint}`}
               type="number"
+              min="0"
+              placeholder="0.00"
               value={depositAmount}
               onChange={(e) => setDepositAmount(e.target.value)}
+              disabled={disabled}
             />
+            <Button
+              onClick={handleDeposit}
+              disabled={disabled || !depositAmount}
+            >
+              {busy ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ArrowUpRight className="h-4 w-4" />
+              )}
+              Deposit
+            </Button>
           </div>
-          <Button
-            onClick={() => onDeposit(position.nftMint, new BN(depositAmount))}
-          >
-            Deposit
-          </Button>
         </div>
 
-        <div className="flex gap-2 mt-2">
-          <div className="flex flex-col">
-            <Label htmlFor="withdraw">Withdraw Shares</Label>
+        <div className="space-y-2">
+          <Label htmlFor={`withdraw-${mint}`}>Withdraw Shares</Label>
+          <div className="flex gap-2">
             <Input
-              id="withdraw"
+              id={`withdraw-${mint}`}
               type="number"
-              value={withdrawAmount}
-              onChange={(e) => setWithdrawAmount(e.target.value)}
+              min="0"
+              placeholder="0"
+              value={withdrawShares}
+              onChange={(e) => setWithdrawShares(e.target.value)}
+              disabled={disabled || !position}
             />
+            <Button
+              variant="outline"
+              onClick={handleWithdraw}
+              disabled={disabled || !position || !withdrawShares}
+            >
+              {busy ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ArrowDownLeft className="h-4 w-4" />
+              )}
+              Withdraw
+            </Button>
           </div>
-          <Button
-            variant="destructive"
-            onClick={() => onWithdraw(position.nftMint, new BN(withdrawAmount))}
-          >
-            Withdraw
-          </Button>
         </div>
       </CardContent>
     </Card>
   );
 };
 
-export const NFTPositionsList: React.FC<{ vaultMint?: PublicKey }> = ({ vaultMint }) => {
-  const vaultHook = useVaultNFT(vaultMint);
-  const [positions, setPositions] = useState<NFTPosition[]>([]);
+// One card per owned identity NFT; actions pass the NFT explicitly so the
+// global SelectionContext is left untouched
+export const NFTPositionsList: React.FC = () => {
+  console.log("[NFTPositions] === COMPONENT RENDER START ===");
 
-  useEffect(() => {
-    const fetchPositions = async () => {
-      const nfts: NFTPosition[] = [];
-      for (const [, pos] of vaultHook.nftPositions) {
-        nfts.push(pos);
-      }
-      setPositions(nfts);
-    };
+  const {
+    program,
+    selectedVault,
+    allUserPositions,
+    portfolioLoading,
+    error,
+    currentNetwork,
+    isConnected,
+    transactionState,
+    deposit,
+    withdraw,
+    loadAllUserPositions,
+  } = useVault();
+
+  const { userNFTs, loading: nftLoading } = useUniqueId();
+  const assetDecimals = useMintDecimals(selectedVault?.assetMint);
+
+  // NFT whose transaction is in flight
+  const [activeMint, setActiveMint] = useState<string | null>(null);
 
-    fetchPositions();
-  }, [vaultHook.nftPositions]);
+  // FAILED/SUCCESS are display states; only block while a transaction is in flight
+  const isBusy =
+    activeMint !== null ||
+    [
+      TransactionStatus.BUILDING,
+      TransactionStatus.SIMULATING,
+      TransactionStatus.SIGNING,
+      TransactionStatus.CONFIRMING,
+    ].includes(transactionState.status);
 
-  const handleDeposit = async (nftMint: PublicKey, amount: BN) => {
-    await vaultHook.depositWithNFT(nftMint, amount);
-    await vaultHook.refreshNFTPosition(nftMint);
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied to clipboard`);
+    } catch (err) {
+      toast.error(`Failed to copy: ${(err as Error).message}`);
+    }
   };
 
-  const handleWithdraw = async (nftMint: PublicKey, shares: BN) => {
-    await vaultHook.withdrawWithNFT(nftMint, shares);
-    await vaultHook.refreshNFTPosition(nftMint);
+  const runForNFT = async (
+    nftMint: PublicKey,
+    action: () => Promise<string | null>,
+    successTitle: string
+  ): Promise<boolean> => {
+    setActiveMint(nftMint.toBase58());
+    try {
+      const tx = await action();
+      if (tx) {
+        toast.success(successTitle, {
+          description: (
+            <ExplorerLink type="tx" value={tx}>
+              {shortenKey(tx, 8)}
+            </ExplorerLink>
+          ),
+        });
+        await loadAllUserPositions();
+        return true;
+      }
+      return false;
+    } finally {
+      setActiveMint(null);
+    }
   };
 
-  if (!vaultHook.isConnected) {
-    return <div>Please connect your wallet.</div>;
-  }
+  const handleDeposit = async (nftMint: PublicKey, amount: string) => {
+    if (!selectedVault || assetDecimals === null) {
+      toast.error("Vault Not Ready", {
+        description: "Wait for the vault asset to load and try again",
+      });
+      return false;
+    }
 
-  if (vaultHook.loading) {
-    return <div>Loading NFT positions...</div>;
-  }
+    const parsed = parseTokenAmount(amount, assetDecimals);
+    if (parsed.error !== null) {
+      toast.error("Invalid Amount", { description: parsed.error });
+      return false;
+    }
+
+    const baseUnits = parsed.amount;
+    return runForNFT(
+      nftMint,
+      () => deposit(baseUnits, selectedVault.assetMint, nftMint),
+      "Deposit Successful"
+    );
+  };
+
+  // Shares are entered in base units
+  const handleWithdraw = async (nftMint: PublicKey, shares: string) => {
+    const parsed = parseTokenAmount(shares, 0);
+    if (!selectedVault || parsed.error !== null) {
+      toast.error("Invalid Amount", {
+        description: parsed.error ?? "Please enter a valid number of shares to withdraw",
+      });
+      return false;
+    }
+
+    const shareAmount = parsed.amount;
+    return runForNFT(
+      nftMint,
+      () => withdraw(shareAmount, selectedVault.assetMint, nftMint),
+      "Withdraw Successful"
+    );
+  };
+
+  const header = (
+    <AppHeader
+      title="Identity Positions"
+      description="Manage the vault position of each identity NFT you own"
+      icon={<Layers className="h-5 w-5" />}
+      programStatus={{ connected: !!program, label: "Vault Program" }}
+      currentNetwork={currentNetwork}
+      onCopyToClipboard={copyToClipboard}
+    />
+  );
 
-  if (positions.length === 0) {
-    return <div>No NFT positions found.</div>;
+  if (!isConnected) {
+    return (
+      <div className="container mx-auto p-6 space-y-6">
+        {header}
+        <Card>
+          <CardContent className="flex items-center justify-center p-8">
+            <div className="text-center">
+              <Wallet className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                Please connect your wallet to manage positions
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        <Toaster richColors position="top-right" />
+      </div>
+    );
   }
 
   return (
-    <div className="flex flex-col">
-      {positions.map((pos) => (
-        <NFTPositionCard
-          key={pos.nftMint.toBase58()}
-          position={pos}
-          onDeposit={handleDeposit}
-          onWithdraw={handleWithdraw}
-        />
-      ))}
+    <div className="container mx-auto p-6 space-y-6">
+      {header}
+
+      {/* Error Display */}
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {transactionState.status === TransactionStatus.FAILED && transactionState.error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {transactionState.message} ({formatProgramError(transactionState.error)})
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          {selectedVault ? (
+            <>
+              Vault{" "}
+              <ExplorerLink type="token" value={selectedVault.assetMint} className="font-mono text-xs" />{" "}
+              <Badge variant="outline">{selectedVault.version}</Badge>
+            </>
+          ) : (
+            "No vault selected - pick one in the NFT Vault tab"
+          )}
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => loadAllUserPositions()}
+          disabled={portfolioLoading}
+        >
+          {portfolioLoading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Refresh
+        </Button>
+      </div>
+
+      {userNFTs.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            {nftLoading
+              ? "Loading identity NFTs..."
+              : "No identity NFTs found in this wallet. Mint one in the Identity Manager."}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {userNFTs.map((nft) => (
+            <NFTPositionCard
+              key={nft.mint.toBase58()}
+              nft={nft}
+              position={
+                allUserPositions.find((p) => p.nftMint.equals(nft.mint)) ?? null
+              }
+              busy={activeMint === nft.mint.toBase58()}
+              disabled={!selectedVault || isBusy}
+              onDeposit={handleDeposit}
+              onWithdraw={handleWithdraw}
+            />
+          ))}
+        </div>
+      )}
+
+      <Toaster richColors position="top-right" />
     </div>
   );
 };
@@ -0,0 +1,52 @@
+import { Check, Globe } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useNetworkPicker } from "@/lib/useNetworkPicker";
+
+// Lists every configured AppKit network; Solana clusters show whether the programs are deployed
+export const NetworkPicker = () => {
+  const { options, activeNetwork, switchTo } = useNetworkPicker();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Globe className="w-4 h-4 mr-2" />
+          {activeNetwork?.name ?? "Select Network"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Networks</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {options.map(({ network, cluster, hasDeployment, isActive }) => (
+          <DropdownMenuItem
+            key={network.id}
+            className="flex items-center justify-between gap-2"
+            onClick={() => !isActive && switchTo(network)}
+          >
+            <span className="flex items-center gap-2">
+              <Check className={isActive ? "w-4 h-4" : "w-4 h-4 invisible"} />
+              {network.name}
+            </span>
+            {cluster ? (
+              <Badge variant={hasDeployment ? "default" : "outline"}>
+                {hasDeployment ? "Deployed" : "No programs"}
+              </Badge>
+            ) : (
+              <Badge variant="secondary">EVM</Badge>
+            )}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useNetworkStore,
+  selectActiveRpcEndpoint,
+  selectCurrentNetwork,
+  selectRpcEndpointOverrides,
+  selectRpcHealth,
+} from "@/store/networkStore";
+import {
+  CLUSTERS,
+  DEFAULT_CLUSTER,
+  resolveCluster,
+  type ClusterName,
+} from "@/config/deployments";
+import {
+  DEFAULT_RPC_ENDPOINTS,
+  validateRpcEndpoint,
+  type RpcEndpoint,
+} from "@/config/rpc";
+import type { RpcHealth } from "@/lib/rpcHealth";
+
+const describeHealth = (health: RpcHealth | undefined) => {
+  if (!health) return "Not checked";
+  if (!health.healthy) return health.error ?? "Unhealthy";
+  const lag = health.slotLag ? `, ${health.slotLag} slots behind` : "";
+  return `${health.latencyMs}ms${lag}`;
+};
+
+// Per-cluster RPC endpoints; the first is the primary, the rest are failover backups
+export const RpcSettings = () => {
+  const currentNetwork = useNetworkStore(selectCurrentNetwork);
+  const overrides = useNetworkStore(selectRpcEndpointOverrides);
+  const activeEndpoint = useNetworkStore(selectActiveRpcEndpoint);
+  const rpcHealth = useNetworkStore(selectRpcHealth);
+  const setRpcEndpoints = useNetworkStore((state) => state.setRpcEndpoints);
+  const resetRpcEndpoints = useNetworkStore((state) => state.resetRpcEndpoints);
+  const switchRpcEndpoint = useNetworkStore((state) => state.switchRpcEndpoint);
+
+  const activeCluster = resolveCluster(currentNetwork);
+  const [cluster, setCluster] = useState<ClusterName>(activeCluster ?? DEFAULT_CLUSTER);
+  const [httpUrl, setHttpUrl] = useState("");
+  const [wsUrl, setWsUrl] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const endpoints = overrides[cluster] ?? DEFAULT_RPC_ENDPOINTS[cluster];
+  const isActiveCluster = cluster === activeCluster;
+
+  const addEndpoint = () => {
+    const endpoint: RpcEndpoint = {
+      http: httpUrl.trim(),
+      ws: wsUrl.trim() || null,
+    };
+    const error =
+      validateRpcEndpoint(endpoint) ??
+      (endpoints.some((e) => e.http === endpoint.http) ? "Endpoint already listed" : null);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    setRpcEndpoints(cluster, [...endpoints, endpoint]);
+    setHttpUrl("");
+    setWsUrl("");
+    setFormError(null);
+  };
+
+  const removeEndpoint = (index: number) => {
+    setRpcEndpoints(cluster, endpoints.filter((_, i) => i !== index));
+  };
+
+  const makePrimary = (index: number) => {
+    setRpcEndpoints(cluster, [endpoints[index], ...endpoints.filter((_, i) => i !== index)]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="rpc-cluster">RPC Endpoints</Label>
+        <Select value={cluster} onValueChange={(value) => setCluster(value as ClusterName)}>
+          <SelectTrigger id="rpc-cluster" className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CLUSTERS.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        {endpoints.map((endpoint, index) => {
+          const health = isActiveCluster ? rpcHealth[endpoint.http] : undefined;
+          const isActive = isActiveCluster && activeEndpoint?.http === endpoint.http;
+
+          return (
+            <div key={endpoint.http} className="rounded-md border p-2 text-xs space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono truncate" title={endpoint.http}>
+                  {endpoint.http}
+                </span>
+                <div className="flex shrink-0 gap-1">
+                  {index === 0 && <Badge variant="outline">Primary</Badge>}
+                  {isActive && <Badge>Active</Badge>}
+                </div>
+              </div>
+              {endpoint.ws && (
+                <p className="font-mono truncate text-muted-foreground" title={endpoint.ws}>
+                  {endpoint.ws}
+                </p>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                {isActiveCluster ? (
+                  <span className={health && !health.healthy ? "text-destructive" : "text-muted-foreground"}>
+                    {describeHealth(health)}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">Checked when {cluster} is selected in the wallet</span>
+                )}
+                <div className="flex shrink-0 gap-1">
+                  {isActiveCluster && !isActive && (
+                    <Button size="sm" variant="outline" className="h-6 px-2" onClick={() => switchRpcEndpoint(endpoint)}>
+                      Use
+                    </Button>
+                  )}
+                  {index > 0 && (
+                    <Button size="sm" variant="outline" className="h-6 px-2" onClick={() => makePrimary(index)}>
+                      Make primary
+                    </Button>
+                  )}
+                  {endpoints.length > 1 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2"
+                      onClick={() => removeEndpoint(index)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <Input
+          placeholder="https://rpc.example.com"
+          value={httpUrl}
+          onChange={(e) => setHttpUrl(e.target.value)}
+        />
+        <Input
+          placeholder="wss://rpc.example.com (optional)"
+          value={wsUrl}
+          onChange={(e) => setWsUrl(e.target.value)}
+        />
+        {formError && <p className="text-xs text-destructive">{formError}</p>}
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={addEndpoint} disabled={!httpUrl.trim()}>
+            <Plus className="mr-1 h-3 w-3" />
+            Add Endpoint
+          </Button>
+          {overrides[cluster] && (
+            <Button size="sm" variant="ghost" onClick={() => resetRpcEndpoints(cluster)}>
+              <RotateCcw className="mr-1 h-3 w-3" />
+              Reset
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Endpoints are checked every 30s. When the active one stops responding
+        or falls too far behind, the next healthy endpoint takes over.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import { Settings } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  useSettingsStore,
+  selectFeeTier,
+  selectLastFeeEstimate,
+  selectExplorer,
+  FEE_TIERS,
+  type FeeTier,
+} from "@/store/settingsStore";
+import { FEE_TIER_PERCENTILES } from "@/lib/transactionBuilder";
+import { EXPLORERS, EXPLORER_LABELS, type ExplorerName } from "@/lib/explorer";
+import { RpcSettings } from "@/components/RpcSettings";
+
+const FEE_TIER_LABELS: Record<FeeTier, string> = {
+  none: "None",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+const describeTier = (tier: FeeTier) => {
+  const p = FEE_TIER_PERCENTILES[tier];
+  return p === null
+    ? "No priority fee"
+    : `${p}th percentile of recent fees`;
+};
+
+export const SettingsPanel = () => {
+  const feeTier = useSettingsStore(selectFeeTier);
+  const lastFeeEstimate = useSettingsStore(selectLastFeeEstimate);
+  const setFeeTier = useSettingsStore((state) => state.setFeeTier);
+  const explorer = useSettingsStore(selectExplorer);
+  const setExplorer = useSettingsStore((state) => state.setExplorer);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon">
+          <Settings className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">Settings</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Settings</SheetTitle>
+          <SheetDescription>
+            Applied to every transaction sent from this app
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 px-4">
+          <div className="space-y-2">
+            <Label htmlFor="fee-tier">Priority Fee</Label>
+            <Select
+              value={feeTier}
+              onValueChange={(value) => setFeeTier(value as FeeTier)}
+            >
+              <SelectTrigger id="fee-tier" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FEE_TIERS.map((tier) => (
+                  <SelectItem key={tier} value={tier}>
+                    {FEE_TIER_LABELS[tier]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {describeTier(feeTier)}. The compute unit limit is sized from a
+              simulation of each transaction.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="explorer">Block Explorer</Label>
+            <Select
+              value={explorer}
+              onValueChange={(value) => setExplorer(value as ExplorerName)}
+            >
+              <SelectTrigger id="explorer" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPLORERS.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {EXPLORER_LABELS[name]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Used for every transaction and address link. Localnet links point
+              the explorer at your local RPC.
+            </p>
+          </div>
+
+          <RpcSettings />
+
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p className="font-medium">Last Transaction Estimate</p>
+            {lastFeeEstimate ? (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Compute Units</span>
+                  <span>{lastFeeEstimate.computeUnitLimit.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Price (µLamports/CU)</span>
+                  <span>{lastFeeEstimate.priorityFeeMicroLamports.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Max Priority Fee</span>
+                  <span>
+                    {lastFeeEstimate.estimatedPriorityFeeLamports.toLocaleString()} lamports
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {FEE_TIER_LABELS[lastFeeEstimate.feeTier]} tier,{" "}
+                  {new Date(lastFeeEstimate.timestamp).toLocaleTimeString()}
+                </p>
+              </>
+            ) : (
+              <p className="text-muted-foreground">No transactions prepared yet</p>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
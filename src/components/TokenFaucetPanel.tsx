@@ -0,0 +1,410 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+
+// Import hooks
+import { useToken, type MintSupply } from '@/lib/useToken';
+import { useTokenStore, selectCreatedMints } from '@/store/tokenStore';
+import { useNetworkStore, selectConnection } from '@/store/networkStore';
+import { fetchMintDecimals, formatTokenAmount, parseTokenAmount } from '@/lib/tokenAmount';
+import { parseBatchMintInput, type BatchMintResult } from '@/lib/batchMint';
+import { shortenKey } from '@/lib/explorer';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Icons
+import { Droplets, Loader2, Plus, RefreshCw, Send, Info, Copy, Trash2, Upload, Layers } from 'lucide-react';
+
+// Import config
+import { CONFIG } from '@/config/programs';
+import { ExplorerLink } from '@/components/shared/ExplorerLink';
+
+interface TokenFaucetPanelProps {
+  onCopyToClipboard: (text: string, label: string) => void;
+  onNotify: (type: 'success' | 'error', message: string) => void;
+}
+
+interface FaucetMint {
+  mint: string;
+  // Configured mints come from the deployment and can't be forgotten
+  source: 'configured' | 'created';
+  createdAt: number | null;
+}
+
+const parseRecipient = (value: string): PublicKey | null => {
+  try {
+    return new PublicKey(value.trim());
+  } catch {
+    return null;
+  }
+};
+
+export const TokenFaucetPanel: React.FC<TokenFaucetPanelProps> = ({
+  onCopyToClipboard,
+  onNotify,
+}) => {
+  const { initializeMint, mintTokens, batchMintTokens, getMintSupply, currentNetwork, walletAddress, program } = useToken();
+  const createdMints = useTokenStore(selectCreatedMints);
+  const removeCreatedMint = useTokenStore((state) => state.removeCreatedMint);
+  const connection = useNetworkStore(selectConnection);
+
+  const mints = useMemo<FaucetMint[]>(() => {
+    const created = currentNetwork ? createdMints[currentNetwork] ?? [] : [];
+    const configured = CONFIG.TEST_TOKEN_MINTS
+      .map((mint) => mint.toBase58())
+      .filter((mint) => !created.some((m) => m.mint === mint));
+
+    return [
+      ...created.map((m) => ({ mint: m.mint, source: 'created' as const, createdAt: m.createdAt })),
+      ...configured.map((mint) => ({ mint, source: 'configured' as const, createdAt: null })),
+    ];
+  }, [createdMints, currentNetwork]);
+
+  const [selectedMint, setSelectedMint] = useState('');
+  const [amount, setAmount] = useState('1000');
+  const [recipient, setRecipient] = useState('');
+  const [supplies, setSupplies] = useState<Record<string, MintSupply | null>>({});
+  const [isLoadingSupplies, setIsLoadingSupplies] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isMinting, setIsMinting] = useState(false);
+  const [batchInput, setBatchInput] = useState('');
+  const [batchResults, setBatchResults] = useState<BatchMintResult[]>([]);
+  const [isBatchMinting, setIsBatchMinting] = useState(false);
+
+  // Keep the selection on a mint that exists on this network
+  useEffect(() => {
+    if (!mints.some((m) => m.mint === selectedMint)) {
+      setSelectedMint(mints[0]?.mint ?? '');
+    }
+  }, [mints, selectedMint]);
+
+  // Default the recipient to the connected wallet until the user types one
+  useEffect(() => {
+    if (walletAddress) {
+      setRecipient((current) => current || walletAddress);
+    }
+  }, [walletAddress]);
+
+  const refreshSupplies = useCallback(async () => {
+    setIsLoadingSupplies(true);
+    try {
+      const results = await Promise.all(
+        mints.map(async (m) => [m.mint, await getMintSupply(new PublicKey(m.mint))] as const)
+      );
+      setSupplies(Object.fromEntries(results));
+    } finally {
+      setIsLoadingSupplies(false);
+    }
+  }, [mints, getMintSupply]);
+
+  useEffect(() => {
+    refreshSupplies();
+  }, [refreshSupplies]);
+
+  const recipientKey = parseRecipient(recipient);
+  const canMint = !!program && !!selectedMint && !!recipientKey && !!amount.trim() && !isMinting;
+
+  const handleCreateMint = async () => {
+    setIsCreating(true);
+    try {
+      const mint = await initializeMint();
+      if (mint) {
+        setSelectedMint(mint.toBase58());
+        onNotify('success', `Created mint ${shortenKey(mint)}`);
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleMint = async () => {
+    if (!connection || !recipientKey) return;
+
+    setIsMinting(true);
+    try {
+      const mint = new PublicKey(selectedMint);
+      const decimals = await fetchMintDecimals(connection, mint);
+      const parsed = parseTokenAmount(amount, decimals);
+      if (parsed.error !== null) {
+        onNotify('error', parsed.error);
+        return;
+      }
+
+      const tx = await mintTokens(parsed.amount, mint, recipientKey);
+      if (tx) {
+        onNotify('success', `Minted ${amount.trim()} tokens to ${shortenKey(recipientKey)}`);
+        const supply = await getMintSupply(mint);
+        setSupplies((current) => ({ ...current, [selectedMint]: supply }));
+      }
+    } catch (err) {
+      onNotify('error', `Minting failed: ${(err as Error).message}`);
+    } finally {
+      setIsMinting(false);
+    }
+  };
+
+  const handleBatchFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setBatchInput(await file.text());
+    }
+    // Allow picking the same file again after editing it
+    e.target.value = '';
+  };
+
+  const handleBatchMint = async () => {
+    let rows;
+    try {
+      rows = parseBatchMintInput(batchInput);
+    } catch (err) {
+      onNotify('error', `Could not read the list: ${(err as Error).message}`);
+      return;
+    }
+    if (rows.length === 0) {
+      onNotify('error', 'The list has no rows');
+      return;
+    }
+
+    setIsBatchMinting(true);
+    try {
+      const mint = new PublicKey(selectedMint);
+      const results = await batchMintTokens(mint, rows);
+      setBatchResults(results);
+
+      const succeeded = results.filter((r) => r.status === 'success').length;
+      onNotify(
+        succeeded === results.length ? 'success' : 'error',
+        `Batch mint: ${succeeded} of ${results.length} rows succeeded`
+      );
+      const supply = await getMintSupply(mint);
+      setSupplies((current) => ({ ...current, [selectedMint]: supply }));
+    } finally {
+      setIsBatchMinting(false);
+    }
+  };
+
+  const describeSupply = (mint: string) => {
+    const supply = supplies[mint];
+    if (supply === undefined) return 'Loading...';
+    if (supply === null) return 'Unavailable';
+    return formatTokenAmount(supply.amount, supply.decimals);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Droplets className="h-4 w-4" />
+          Test Token Faucet
+        </CardTitle>
+        <CardDescription>
+          Create test mints controlled by the program and mint them to any address
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button onClick={handleCreateMint} disabled={!program || isCreating} variant="outline" className="w-full">
+          {isCreating ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          Create New Mint
+        </Button>
+
+        {mints.length === 0 ? (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              No test mints on {currentNetwork ?? 'this network'} yet. Create one to get started.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Mint</Label>
+                <Select value={selectedMint} onValueChange={setSelectedMint}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select a mint" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mints.map((m) => (
+                      <SelectItem key={m.mint} value={m.mint}>
+                        {shortenKey(m.mint)} ({m.source === 'created' ? 'created' : 'configured'})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="faucet-amount">Amount</Label>
+                <Input
+                  id="faucet-amount"
+                  inputMode="decimal"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="col-span-full space-y-2">
+                <Label htmlFor="faucet-recipient">Recipient</Label>
+                <Input
+                  id="faucet-recipient"
+                  className="font-mono text-xs"
+                  placeholder="Solana address"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                />
+                {recipient && !recipientKey && (
+                  <p className="text-xs text-destructive">Enter a valid Solana address</p>
+                )}
+                {recipientKey && walletAddress && recipientKey.toBase58() !== walletAddress && (
+                  <p className="text-xs text-muted-foreground">
+                    Tokens are minted to your wallet and transferred on in the same transaction.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <Button onClick={handleMint} disabled={!canMint} className="w-full">
+              {isMinting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Mint Tokens
+            </Button>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="faucet-batch">Batch Mint</Label>
+                <Button size="sm" variant="ghost" className="h-6 px-2" asChild>
+                  <label>
+                    <Upload className="mr-1 h-3 w-3" />
+                    Load CSV/JSON
+                    <input type="file" accept=".csv,.json,.txt" className="hidden" onChange={handleBatchFile} />
+                  </label>
+                </Button>
+              </div>
+              <textarea
+                id="faucet-batch"
+                rows={5}
+                className="w-full rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                placeholder={'address,amount\n7xKX...,100\n9WzD...,2.5'}
+                value={batchInput}
+                onChange={(e) => setBatchInput(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                One <span className="font-mono">address,amount</span> row per line, or a JSON array of{' '}
+                <span className="font-mono">{'{ address, amount }'}</span>. Amounts are in whole tokens of the selected mint.
+              </p>
+              <Button
+                onClick={handleBatchMint}
+                disabled={!program || !selectedMint || !batchInput.trim() || isBatchMinting}
+                variant="outline"
+                className="w-full"
+              >
+                {isBatchMinting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Layers className="mr-2 h-4 w-4" />
+                )}
+                Mint Batch
+              </Button>
+
+              {batchResults.length > 0 && (
+                <div className="space-y-1">
+                  {batchResults.map((result) => (
+                    <div
+                      key={result.row}
+                      className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted text-xs"
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-mono truncate">
+                          #{result.row} {result.address || '(no address)'} · {result.amount || '(no amount)'}
+                        </p>
+                        {result.error && <p className="text-destructive">{result.error}</p>}
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        {result.signature && <ExplorerLink type="tx" value={result.signature} />}
+                        <Badge variant={result.status === 'success' ? 'default' : 'destructive'}>
+                          {result.status === 'success' ? 'Minted' : 'Failed'}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-sm">Mints on {currentNetwork}</h3>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={refreshSupplies}
+                  disabled={isLoadingSupplies}
+                >
+                  <RefreshCw className={`h-3 w-3 ${isLoadingSupplies ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+              {mints.map((m) => (
+                <div
+                  key={m.mint}
+                  className="flex items-center justify-between p-2 rounded-lg bg-muted text-sm"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <ExplorerLink type="address" value={m.mint} className="font-mono text-xs" />
+                      <Badge variant={m.source === 'created' ? 'default' : 'outline'}>
+                        {m.source === 'created' ? 'Created' : 'Configured'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Supply: {describeSupply(m.mint)}
+                      {m.createdAt !== null && ` · ${new Date(m.createdAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      onClick={() => onCopyToClipboard(m.mint, 'Mint address')}
+                    >
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                    {m.source === 'created' && currentNetwork && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => removeCreatedMint(currentNetwork, m.mint)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                        <span className="sr-only">Forget mint</span>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from "react";
+import { useAppKitAccount } from "@reown/appkit/react";
+
+// Import hooks
+import { useTransactionHistory } from "@/lib/useTransactionHistory";
+import { useUniqueId } from "@/lib/useUniqueId";
+import { useNetworkStore, selectCurrentNetwork } from "@/store/networkStore";
+import { formatInstructionName, type HistoryEntry } from "@/lib/transactionHistory";
+import { shortenKey } from "@/lib/explorer";
+import type { ProgramName } from "@/lib/programErrors";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Toaster } from "@/components/ui/sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Icons
+import {
+  AlertCircle,
+  History,
+  Loader2,
+  RefreshCw,
+  Wallet,
+} from "lucide-react";
+
+// Toast notifications
+import { toast } from "sonner";
+
+// Shared components
+import { AppHeader } from "@/components/shared/AppHeader";
+import { ExplorerLink } from "@/components/shared/ExplorerLink";
+
+const PROGRAM_LABELS: Record<ProgramName, string> = {
+  simple_vault: "Vault",
+  unique_low: "Identity",
+  test_token: "Test Token",
+};
+
+const ALL = "all";
+
+export const TransactionHistory: React.FC = () => {
+  console.log("[TransactionHistory] === COMPONENT RENDER START ===");
+
+  const { address, isConnected } = useAppKitAccount();
+  const currentNetwork = useNetworkStore(selectCurrentNetwork);
+  const { entries, loading, error, refresh } = useTransactionHistory();
+  const { userNFTs } = useUniqueId();
+
+  const [programFilter, setProgramFilter] = useState<string>(ALL);
+  const [instructionFilter, setInstructionFilter] = useState<string>(ALL);
+  const [mineOnly, setMineOnly] = useState(true);
+
+  // Identity NFTs the wallet owns, by mint
+  const tokenIds = useMemo(
+    () => new Map(userNFTs.map((nft) => [nft.mint.toBase58(), nft.tokenId])),
+    [userNFTs]
+  );
+
+  const instructionOptions = useMemo(() => {
+    const names = entries
+      .filter((e) => programFilter === ALL || e.program === programFilter)
+      .map((e) => e.instruction);
+    return Array.from(new Set(names)).sort();
+  }, [entries, programFilter]);
+
+  const filtered = useMemo(
+    () =>
+      entries.filter(
+        (e) =>
+          (programFilter === ALL || e.program === programFilter) &&
+          (instructionFilter === ALL || e.instruction === instructionFilter) &&
+          (!mineOnly || e.feePayer.toBase58() === address)
+      ),
+    [entries, programFilter, instructionFilter, mineOnly, address]
+  );
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied to clipboard`);
+    } catch (err) {
+      toast.error(`Failed to copy: ${(err as Error).message}`);
+    }
+  };
+
+  const renderNFT = (entry: HistoryEntry) => {
+    if (!entry.nftMint) return "-";
+    const tokenId = tokenIds.get(entry.nftMint.toBase58());
+    return (
+      <ExplorerLink type="token" value={entry.nftMint} className="font-mono text-xs">
+        {tokenId !== undefined ? `#${tokenId}` : shortenKey(entry.nftMint)}
+      </ExplorerLink>
+    );
+  };
+
+  const header = (
+    <AppHeader
+      title="Transaction History"
+      description="Deposits, withdrawals and mints for your wallet and identity NFTs"
+      icon={<History className="h-5 w-5" />}
+      currentNetwork={currentNetwork}
+      onCopyToClipboard={copyToClipboard}
+    />
+  );
+
+  if (!isConnected) {
+    return (
+      <div className="container mx-auto p-6 space-y-6">
+        {header}
+        <Card>
+          <CardContent className="flex items-center justify-center p-8">
+            <div className="text-center">
+              <Wallet className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                Please connect your wallet to view your history
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        <Toaster richColors position="top-right" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {header}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+            <span>Activity</span>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={programFilter}
+                onValueChange={(value) => {
+                  setProgramFilter(value);
+                  setInstructionFilter(ALL);
+                }}
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All programs</SelectItem>
+                  {(Object.keys(PROGRAM_LABELS) as ProgramName[]).map((program) => (
+                    <SelectItem key={program} value={program}>
+                      {PROGRAM_LABELS[program]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={instructionFilter} onValueChange={setInstructionFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All instructions</SelectItem>
+                  {instructionOptions.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {formatInstructionName(name)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant={mineOnly ? "default" : "outline"}
+                onClick={() => setMineOnly(!mineOnly)}
+              >
+                {mineOnly ? "Mine only" : "Everyone"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => refresh()} disabled={loading}>
+                {loading ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Refresh
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filtered.length === 0 ? (
+            <p className="p-8 text-center text-muted-foreground">
+              {loading ? "Loading transactions..." : "No matching transactions"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Program</TableHead>
+                  <TableHead>Instruction</TableHead>
+                  <TableHead className="text-right">Amount (base units)</TableHead>
+                  <TableHead>Identity NFT</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-xs">
+                      {entry.blockTime
+                        ? new Date(entry.blockTime * 1000).toLocaleString()
+                        : `Slot ${entry.slot}`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{PROGRAM_LABELS[entry.program]}</Badge>
+                    </TableCell>
+                    <TableCell>{formatInstructionName(entry.instruction)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {entry.amount ? entry.amount.toString() : "-"}
+                    </TableCell>
+                    <TableCell>{renderNFT(entry)}</TableCell>
+                    <TableCell>
+                      {entry.success ? (
+                        <Badge>Success</Badge>
+                      ) : (
+                        <Badge variant="destructive" title={entry.error ?? undefined}>
+                          Failed
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ExplorerLink
+                        type="tx"
+                        value={entry.signature}
+                        className="text-xs text-muted-foreground"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Toaster richColors position="top-right" />
+    </div>
+  );
+};
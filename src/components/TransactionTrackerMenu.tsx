@@ -0,0 +1,97 @@
+import { useMemo } from "react";
+import { Activity, Loader2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  useTransactionStore,
+  selectTransactions,
+  type TrackedTransactionStatus,
+} from "@/store/transactionStore";
+import { useNetworkStore, selectCurrentNetwork } from "@/store/networkStore";
+import { ExplorerLink } from "@/components/shared/ExplorerLink";
+import { shortenKey } from "@/lib/explorer";
+
+const STATUS_VARIANTS: Record<
+  TrackedTransactionStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "secondary",
+  confirmed: "default",
+  finalized: "default",
+  failed: "destructive",
+  expired: "outline",
+};
+
+// Shown in the header; lists transactions sent on the current network
+export const TransactionTrackerMenu = () => {
+  const transactions = useTransactionStore(selectTransactions);
+  const clearSettled = useTransactionStore((state) => state.clearSettled);
+  const currentNetwork = useNetworkStore(selectCurrentNetwork);
+
+  const recent = useMemo(
+    () =>
+      Object.values(transactions)
+        .filter((tx) => tx.network === currentNetwork)
+        .sort((a, b) => b.createdAt - a.createdAt),
+    [transactions, currentNetwork]
+  );
+  const pendingCount = recent.filter((tx) => tx.status === "pending").length;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          {pendingCount > 0 ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Activity className="w-4 h-4 mr-2" />
+          )}
+          {pendingCount > 0 ? `${pendingCount} Pending` : "Transactions"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Recent Transactions</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {recent.length === 0 ? (
+          <DropdownMenuItem disabled>No transactions yet</DropdownMenuItem>
+        ) : (
+          recent.map((tx) => (
+            <DropdownMenuItem
+              key={tx.signature}
+              className="flex items-center justify-between gap-2"
+              onSelect={(e) => e.preventDefault()}
+            >
+              <div className="min-w-0">
+                <p className="text-sm">{tx.label}</p>
+                <p className="font-mono text-xs text-muted-foreground">
+                  <ExplorerLink type="tx" value={tx.signature}>
+                    {shortenKey(tx.signature, 8)}
+                  </ExplorerLink>
+                  {tx.sendCount > 1 && ` · sent ${tx.sendCount}x`}
+                </p>
+              </div>
+              <Badge variant={STATUS_VARIANTS[tx.status]}>{tx.status}</Badge>
+            </DropdownMenuItem>
+          ))
+        )}
+        {recent.length > pendingCount && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={clearSettled}>
+              Clear completed
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
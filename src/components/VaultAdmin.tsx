@@ -0,0 +1,364 @@
+import React, { useMemo, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+
+// Import hooks
+import { useVault } from "@/lib/useVault";
+import { CONFIG, VaultUtils } from "@/config/programs";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Toaster } from "@/components/ui/sonner";
+
+// Icons
+import {
+  AlertCircle,
+  KeyRound,
+  Loader2,
+  PlusCircle,
+  ShieldAlert,
+  Trash2,
+} from "lucide-react";
+
+// Toast notifications
+import { toast } from "sonner";
+
+// Shared components
+import { AppHeader } from "@/components/shared/AppHeader";
+import { ExplorerLink } from "@/components/shared/ExplorerLink";
+import { shortenKey } from "@/lib/explorer";
+
+const parsePublicKey = (value: string): PublicKey | null => {
+  try {
+    return new PublicKey(value.trim());
+  } catch {
+    return null;
+  }
+};
+
+export const VaultAdmin: React.FC = () => {
+  console.log("[VaultAdmin] === COMPONENT RENDER START ===");
+
+  const {
+    program,
+    loading,
+    error,
+    currentNetwork,
+    isConnected,
+    isVaultOwner,
+    closeSummary,
+    initializeVault,
+    loadCloseSummary,
+    closeVault,
+  } = useVault();
+
+  // Form state
+  const [initAssetMint, setInitAssetMint] = useState(
+    CONFIG.VAULT_ASSET_MINT.toBase58()
+  );
+  const [initCollection, setInitCollection] = useState(
+    CONFIG.COLLECTION_PDA.toBase58()
+  );
+  const [closeAssetMint, setCloseAssetMint] = useState(
+    CONFIG.VAULT_ASSET_MINT.toBase58()
+  );
+
+  // Dialog state
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  const initAssetKey = useMemo(() => parsePublicKey(initAssetMint), [initAssetMint]);
+  const initCollectionKey = useMemo(() => parsePublicKey(initCollection), [initCollection]);
+  const closeAssetKey = useMemo(() => parsePublicKey(closeAssetMint), [closeAssetMint]);
+
+  const derivedInitVault = useMemo(
+    () => (initAssetKey ? VaultUtils.getVaultPDA(initAssetKey)[0] : null),
+    [initAssetKey]
+  );
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied to clipboard`);
+    } catch (err) {
+      toast.error(`Failed to copy: ${(err as Error).message}`);
+    }
+  };
+
+  const handleInitialize = async () => {
+    if (!initAssetKey || !initCollectionKey) {
+      toast.error("Invalid Address", {
+        description: "Asset mint and collection must be valid public keys",
+      });
+      return;
+    }
+
+    const tx = await initializeVault(initAssetKey, initCollectionKey);
+    if (tx) {
+      toast.success("Vault Initialized", {
+        description: (
+          <span>
+            Vault {derivedInitVault && <ExplorerLink type="address" value={derivedInitVault} />}{" "}
+            created (<ExplorerLink type="tx" value={tx} />)
+          </span>
+        ),
+      });
+    }
+  };
+
+  const handleReviewClose = async () => {
+    if (!closeAssetKey) {
+      toast.error("Invalid Address", {
+        description: "Asset mint must be a valid public key",
+      });
+      return;
+    }
+
+    setIsReviewing(true);
+    try {
+      const summary = await loadCloseSummary(closeAssetKey);
+      if (summary) {
+        setConfirmOpen(true);
+      }
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const handleConfirmClose = async () => {
+    if (!closeSummary) return;
+
+    const tx = await closeVault(closeSummary.assetMint);
+    setConfirmOpen(false);
+    if (tx) {
+      toast.success("Vault Closed", {
+        description: (
+          <span>
+            Vault <ExplorerLink type="address" value={closeSummary.vaultPda} /> closed (
+            <ExplorerLink type="tx" value={tx} />)
+          </span>
+        ),
+      });
+    }
+  };
+
+  const header = (
+    <AppHeader
+      title="Vault Admin"
+      description="Owner-only vault lifecycle: initialize new vaults and close empty ones"
+      icon={<KeyRound className="h-5 w-5" />}
+      programStatus={{ connected: !!program, label: "Vault Program" }}
+      currentNetwork={currentNetwork}
+      onCopyToClipboard={copyToClipboard}
+    />
+  );
+
+  if (!isConnected || !isVaultOwner) {
+    return (
+      <div className="container mx-auto p-6 space-y-6">
+        {header}
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertDescription>
+            Only the vault owner (<ExplorerLink type="address" value={CONFIG.OWNER_ID} />)
+            can manage vaults. Connect the owner wallet to continue.
+          </AlertDescription>
+        </Alert>
+        <Toaster richColors position="top-right" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {header}
+
+      {/* Error Display */}
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Initialize Vault */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PlusCircle className="h-5 w-5" />
+              Initialize Vault
+            </CardTitle>
+            <CardDescription>
+              Create a vault for an asset mint, gated by an NFT collection
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="init-asset-mint">Asset Mint</Label>
+              <Input
+                id="init-asset-mint"
+                className="font-mono text-xs"
+                value={initAssetMint}
+                onChange={(e) => setInitAssetMint(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="init-collection">NFT Collection</Label>
+              <Input
+                id="init-collection"
+                className="font-mono text-xs"
+                value={initCollection}
+                onChange={(e) => setInitCollection(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm text-muted-foreground">Derived Vault PDA</Label>
+              {derivedInitVault ? (
+                <Badge variant="outline" className="font-mono">
+                  {derivedInitVault.toBase58()}
+                </Badge>
+              ) : (
+                <Badge variant="secondary">Invalid asset mint</Badge>
+              )}
+            </div>
+            <Button
+              onClick={handleInitialize}
+              className="w-full"
+              disabled={loading || !initAssetKey || !initCollectionKey}
+            >
+              {loading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <PlusCircle className="mr-2 h-4 w-4" />
+              )}
+              Initialize Vault
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Close Vault */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5" />
+              Close Vault
+            </CardTitle>
+            <CardDescription>
+              Close a vault once all shares are redeemed and its token account is empty
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="close-asset-mint">Asset Mint</Label>
+              <Input
+                id="close-asset-mint"
+                className="font-mono text-xs"
+                value={closeAssetMint}
+                onChange={(e) => setCloseAssetMint(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleReviewClose}
+              variant="destructive"
+              className="w-full"
+              disabled={loading || isReviewing || !closeAssetKey}
+            >
+              {isReviewing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="mr-2 h-4 w-4" />
+              )}
+              Review & Close
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Close Confirmation */}
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close vault?</DialogTitle>
+            <DialogDescription>
+              This permanently closes the vault account. Review what is left in it first.
+            </DialogDescription>
+          </DialogHeader>
+
+          {closeSummary && (
+            <div className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Vault</span>
+                <ExplorerLink type="address" value={closeSummary.vaultPda} className="font-mono">
+                  {shortenKey(closeSummary.vaultPda, 8)}
+                </ExplorerLink>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Remaining total_shares</span>
+                <span className="font-semibold">{closeSummary.totalShares.toString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Vault token balance</span>
+                <span className="font-semibold">
+                  {closeSummary.balanceError ? "Unknown" : closeSummary.uiTokenBalance.toLocaleString()}
+                </span>
+              </div>
+
+              {closeSummary.balanceError ? (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {closeSummary.balanceError}. The vault can't be closed until
+                    its balance is confirmed to be zero.
+                  </AlertDescription>
+                </Alert>
+              ) : !closeSummary.canClose && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    The vault still holds shares or tokens. Users must withdraw
+                    before it can be closed safely.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmClose}
+              disabled={loading || !closeSummary?.canClose}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Close Vault
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Toaster richColors position="top-right" />
+    </div>
+  );
+};
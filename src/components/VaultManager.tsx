@@ -1,10 +1,10 @@
 import React, { useState, useEffect } from "react";
-import { BN } from "@coral-xyz/anchor";
 import { PublicKey } from "@solana/web3.js";
 import { useAppKitAccount } from "@reown/appkit/react";
 
 // Import hooks
 import { useVault, TransactionStatus } from "@/lib/useVault";
+import { useProgramEvent } from "@/lib/useProgramEvents";
 import { useTokenSelection, useNFTSelection } from "@/context/SelectionContext";
 
 // UI Components
@@ -26,6 +26,22 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { Toaster } from "@/components/ui/sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 
 // Icons
 import {
@@ -42,6 +58,7 @@ import {
   Shield,
   Info,
   Coins,
+  Vault,
   Sparkles,
   CreditCard,
   TrendingUp,
@@ -51,8 +68,67 @@ import {
 // Toast notifications
 import { toast } from "sonner";
 
+// Error decoding
+import { formatProgramError } from "@/lib/programErrors";
+import type { VaultPreview } from "@/lib/vaultMath";
+import { formatTokenAmount, parseTokenAmount } from "@/lib/tokenAmount";
+import { useMintDecimals } from "@/lib/useMintDecimals";
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+interface PreviewSummaryProps {
+  preview: VaultPreview | null;
+  // null while the asset mint's decimals load
+  decimals: number | null;
+  mode: "deposit" | "withdraw";
+}
+
+// What the user gets and where their position ends up, shown before signing
+const PreviewSummary: React.FC<PreviewSummaryProps> = ({
+  preview,
+  decimals,
+  mode,
+}) => {
+  if (!preview || decimals === null) return null;
+
+  const rows = [
+    mode === "deposit"
+      ? ["Shares received", preview.shares.toString()]
+      : ["Shares burned", preview.shares.toString()],
+    mode === "deposit"
+      ? ["Assets deposited", formatTokenAmount(preview.assets, decimals)]
+      : ["Assets received", formatTokenAmount(preview.assets, decimals)],
+    ["Share price", preview.sharePrice.toFixed(6)],
+    [
+      "Position after",
+      `${preview.resultingShares.toString()} shares ≈ ${formatTokenAmount(
+        preview.resultingAssets,
+        decimals
+      )}`,
+    ],
+  ];
+
+  return (
+    <div className="rounded-lg bg-muted p-3 space-y-1 text-xs">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-mono">{value}</span>
+        </div>
+      ))}
+      {preview.exceedsLiquidity && (
+        <p className="text-destructive pt-1">
+          The vault does not hold enough cash to pay this out right now.
+        </p>
+      )}
+    </div>
+  );
+};
+
 // Shared components
 import { AppHeader } from "@/components/shared/AppHeader";
+import { ExplorerLink } from "@/components/shared/ExplorerLink";
+import { shortenKey } from "@/lib/explorer";
 
 export const VaultManager: React.FC = () => {
   console.log("[VaultManager] === COMPONENT RENDER START ===");
@@ -74,10 +150,15 @@ export const VaultManager: React.FC = () => {
     // Store data (read-only)
     program,
     vault,
+    vaults,
+    selectedVault,
+    vaultBalance,
+    vaultMetrics,
     selectedNFTPosition,
     allUserPositions,
     loading,
     userPositionLoading,
+    portfolioLoading,
     error,
 
     // Network state (read-only)
@@ -99,9 +180,11 @@ export const VaultManager: React.FC = () => {
     // Actions
     deposit,
     withdraw,
-    refreshVaultData,
-    refreshUserPosition,
-    refreshAllData,
+    previewDeposit,
+    previewWithdraw,
+    previewWithdrawAssets,
+    setSelectedVault,
+    loadAllUserPositions,
 
     // Transaction state - NEW
     transactionState,
@@ -110,6 +193,29 @@ export const VaultManager: React.FC = () => {
   // Local UI state
   const [depositAmount, setDepositAmount] = useState("100");
   const [withdrawShares, setWithdrawShares] = useState("50");
+  const [withdrawAssets, setWithdrawAssets] = useState("");
+  const [withdrawMode, setWithdrawMode] = useState<"shares" | "assets">("shares");
+
+  // Previews recompute on every render so they follow accrued interest.
+  // Shares are entered in base units, so they parse with 0 decimals
+  const assetDecimals = useMintDecimals(selectedVault?.assetMint);
+  const parsedDeposit =
+    assetDecimals === null ? null : parseTokenAmount(depositAmount, assetDecimals);
+  const depositBaseUnits = parsedDeposit?.amount ?? null;
+  const depositPreview = depositBaseUnits ? previewDeposit(depositBaseUnits) : null;
+
+  const parsedWithdraw =
+    withdrawMode === "shares"
+      ? parseTokenAmount(withdrawShares, 0)
+      : assetDecimals === null
+        ? null
+        : parseTokenAmount(withdrawAssets, assetDecimals);
+  const withdrawPreview = (() => {
+    if (!parsedWithdraw?.amount) return null;
+    return withdrawMode === "shares"
+      ? previewWithdraw(parsedWithdraw.amount)
+      : previewWithdrawAssets(parsedWithdraw.amount);
+  })();
 
   // console.log("[VaultManager] Transaction state:", transactionState);
 
@@ -125,31 +231,53 @@ export const VaultManager: React.FC = () => {
             <p>Your tokens have been deposited to the vault</p>
             <div className="flex items-center gap-2">
               <code className="text-xs bg-muted px-2 py-1 rounded">
-                {transactionState.signature.slice(0, 8)}...
-                {transactionState.signature.slice(-8)}
+                {shortenKey(transactionState.signature, 8)}
               </code>
-              <button
-                onClick={() =>
-                  window.open(
-                    `https://solscan.io/tx/${transactionState.signature}?cluster=testnet`,
-                    "_blank"
-                  )
-                }
+              <ExplorerLink
+                type="tx"
+                value={transactionState.signature}
                 className="text-xs underline hover:no-underline"
               >
-                View on Solscan
-              </button>
+                View transaction
+              </ExplorerLink>
             </div>
           </div>
         ),
       });
     } else if (transactionState.status === TransactionStatus.FAILED) {
-      toast.error("Transaction Failed", {
-        description: transactionState.message,
+      const txError = transactionState.error;
+      toast.error(txError ? `Transaction Failed: ${txError.name}` : "Transaction Failed", {
+        description: (
+          <div className="space-y-1">
+            <p>{txError?.userMessage ?? transactionState.message}</p>
+            {txError && (
+              <p className="text-xs font-mono opacity-75">
+                {formatProgramError(txError)}
+              </p>
+            )}
+          </div>
+        ),
       });
     }
   }, [transactionState.status, transactionState.signature]);
 
+  // Balances follow account subscriptions; events only announce other users' activity
+  useProgramEvent("withdrawEvent", (event) => {
+    console.log("[VaultManager] WithdrawEvent received:", event.signature);
+
+    const user = event.data.user as PublicKey | undefined;
+    if (user && user.toBase58() !== address) {
+      toast.info("Vault withdrawal detected", {
+        description: (
+          <span>
+            <ExplorerLink type="address" value={user} /> withdrew{" "}
+            {String(event.data.amount)} tokens
+          </span>
+        ),
+      });
+    }
+  });
+
   // Copy to clipboard helper
   const copyToClipboard = async (text: string, label: string) => {
     try {
@@ -171,9 +299,9 @@ export const VaultManager: React.FC = () => {
       return;
     }
 
-    if (!depositAmount || parseFloat(depositAmount) <= 0) {
+    if (!depositBaseUnits) {
       toast.error("Invalid Amount", {
-        description: "Please enter a valid deposit amount",
+        description: parsedDeposit?.error ?? "Token decimals are still loading, try again in a moment",
       });
       return;
     }
@@ -185,10 +313,7 @@ export const VaultManager: React.FC = () => {
     }
 
     try {
-      const decimals = 6;
-      const amount = new BN(parseFloat(depositAmount)).mul(
-        new BN(10).pow(new BN(decimals))
-      );
+      const amount = depositBaseUnits;
 
       console.log("[VaultManager] Calling deposit with:", {
         amount: amount.toString(),
@@ -225,6 +350,17 @@ export const VaultManager: React.FC = () => {
             </>
           ),
         };
+      case TransactionStatus.SIMULATING:
+        return {
+          disabled: true,
+          variant: "default" as const,
+          children: (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Simulating...
+            </>
+          ),
+        };
       case TransactionStatus.SIGNING:
         return {
           disabled: true,
@@ -300,17 +436,25 @@ export const VaultManager: React.FC = () => {
       return;
     }
 
-    const sharesAmount = parseFloat(withdrawShares);
-    if (!sharesAmount || sharesAmount <= 0) {
+    // By-amount withdrawals burn the share count from the preview
+    const shares =
+      withdrawMode === "shares"
+        ? parsedWithdraw?.amount ?? null
+        : withdrawPreview?.shares ?? null;
+    if (!shares) {
       toast.error("Invalid Amount", {
-        description: "Please enter a valid number of shares to withdraw",
+        description:
+          parsedWithdraw?.error ??
+          (withdrawMode === "shares"
+            ? "Please enter a whole number of shares to withdraw"
+            : "Please enter a valid amount (vault balance must be loaded)"),
       });
       return;
     }
 
-    if (sharesAmount > selectedNFTPosition.shareAmount) {
+    if (shares.gt(selectedNFTPosition.shares)) {
       toast.error("Invalid Amount", {
-        description: `You only have ${selectedNFTPosition.shareAmount} shares available`,
+        description: `You only have ${selectedNFTPosition.shares.toString()} shares available`,
       });
       return;
     }
@@ -322,8 +466,6 @@ export const VaultManager: React.FC = () => {
     }
 
     try {
-      const shares:BN = new BN(Math.floor(sharesAmount));
-
       console.log("[VaultManager] Calling withdraw with:", {
         shares: shares.toString(),
         assetMint: selectedTokenMint.toBase58(),
@@ -334,6 +476,7 @@ export const VaultManager: React.FC = () => {
 
       if (tx) {
         setWithdrawShares("50"); // Reset form on success
+        setWithdrawAssets("");
         console.log("[VaultManager] Withdraw completed successfully");
       }
     } catch (err) {
@@ -344,7 +487,9 @@ export const VaultManager: React.FC = () => {
   };
 
   const getWithdrawButtonProps = () => {
-    const baseDisabled = !hasRequiredSelections || !withdrawShares;
+    const baseDisabled =
+      !hasRequiredSelections ||
+      (withdrawMode === "shares" ? !withdrawShares : !withdrawAssets);
 
     switch (transactionState.status) {
       case TransactionStatus.BUILDING:
@@ -358,6 +503,17 @@ export const VaultManager: React.FC = () => {
             </>
           ),
         };
+      case TransactionStatus.SIMULATING:
+        return {
+          disabled: true,
+          variant: "default" as const,
+          children: (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Simulating...
+            </>
+          ),
+        };
 
       case TransactionStatus.SIGNING:
         return {
@@ -474,6 +630,99 @@ export const VaultManager: React.FC = () => {
         </Alert>
       )}
 
+      {/* Vault Selection */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Vault className="h-4 w-4" />
+            Vault
+          </CardTitle>
+          <CardDescription>
+            Deposits and withdrawals go to the selected vault
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {vaults.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {loading ? "Discovering vaults..." : "No vaults found for this program"}
+            </p>
+          ) : (
+            <Select
+              value={selectedVault?.key ?? ""}
+              onValueChange={setSelectedVault}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a vault" />
+              </SelectTrigger>
+              <SelectContent>
+                {vaults.map((v) => (
+                  <SelectItem key={v.key} value={v.key}>
+                    {shortenKey(v.assetMint)} ({v.version})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {selectedVault && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="outline">{selectedVault.version}</Badge>
+              <span>Vault</span>
+              <ExplorerLink type="address" value={selectedVault.address} className="font-mono" />
+              <span>Shares</span>
+              <code>{selectedVault.data.totalShares.toString()}</code>
+            </div>
+          )}
+          {vaultMetrics && vaultBalance && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Total Assets</p>
+                <p className="font-semibold">
+                  {formatTokenAmount(
+                    vaultMetrics.totalAssets,
+                    vaultBalance.decimals
+                  )}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Share Price</p>
+                <p className="font-semibold">
+                  {vaultMetrics.sharePrice.toFixed(6)}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Utilization</p>
+                <p className="font-semibold">
+                  {formatPercent(vaultMetrics.utilization)}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Supply APY</p>
+                <p className="font-semibold text-green-600">
+                  {formatPercent(vaultMetrics.supplyApy)}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Borrow APY</p>
+                <p className="font-semibold">
+                  {formatPercent(vaultMetrics.borrowApy)}
+                </p>
+              </div>
+            </div>
+          )}
+          {selectedVault &&
+            selectedTokenMint &&
+            !selectedTokenMint.equals(selectedVault.assetMint) && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription>
+                  The selected token is not this vault's asset (
+                  <ExplorerLink type="token" value={selectedVault.assetMint} className="font-mono" />).
+                </AlertDescription>
+              </Alert>
+            )}
+        </CardContent>
+      </Card>
+
       {/* Main Content */}
       <Tabs defaultValue="operations" className="w-full">
         <TabsList className="grid w-full grid-cols-2">
@@ -519,6 +768,11 @@ export const VaultManager: React.FC = () => {
                       identifier
                     </div>
                   </div>
+                  <PreviewSummary
+                    preview={depositPreview}
+                    decimals={assetDecimals}
+                    mode="deposit"
+                  />
                   <Button
                     onClick={handleDeposit}
                     className="w-full"
@@ -528,13 +782,43 @@ export const VaultManager: React.FC = () => {
 
                 <TabsContent value="withdraw" className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="withdraw-shares">Withdraw Shares</Label>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="withdraw-input">
+                        {withdrawMode === "shares"
+                          ? "Withdraw Shares"
+                          : "Withdraw Amount"}
+                      </Label>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant={withdrawMode === "shares" ? "secondary" : "ghost"}
+                          onClick={() => setWithdrawMode("shares")}
+                        >
+                          Shares
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={withdrawMode === "assets" ? "secondary" : "ghost"}
+                          onClick={() => setWithdrawMode("assets")}
+                        >
+                          Amount
+                        </Button>
+                      </div>
+                    </div>
                     <Input
-                      id="withdraw-shares"
+                      id="withdraw-input"
                       type="number"
-                      placeholder="Enter shares to withdraw"
-                      value={withdrawShares}
-                      onChange={(e) => setWithdrawShares(e.target.value)}
+                      placeholder={
+                        withdrawMode === "shares"
+                          ? "Enter shares to withdraw"
+                          : "Enter amount to receive"
+                      }
+                      value={withdrawMode === "shares" ? withdrawShares : withdrawAssets}
+                      onChange={(e) =>
+                        withdrawMode === "shares"
+                          ? setWithdrawShares(e.target.value)
+                          : setWithdrawAssets(e.target.value)
+                      }
                       disabled={
                         transactionState.status !== TransactionStatus.IDLE ||
                         !hasRequiredSelections
@@ -546,6 +830,11 @@ export const VaultManager: React.FC = () => {
                         : "Select an NFT to see your position"}
                     </div>
                   </div>
+                  <PreviewSummary
+                    preview={withdrawPreview}
+                    decimals={assetDecimals}
+                    mode="withdraw"
+                  />
                   <Button
                     onClick={handleWithdraw}
                     className="w-full"
@@ -556,6 +845,36 @@ export const VaultManager: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* Pre-signing simulation of the last deposit/withdraw */}
+          {transactionState.simulation && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  {transactionState.simulation.success ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-destructive" />
+                  )}
+                  Simulation {transactionState.simulation.success ? "passed" : "failed"}
+                </CardTitle>
+                <CardDescription>
+                  {transactionState.simulation.unitsConsumed !== null
+                    ? `${transactionState.simulation.unitsConsumed.toLocaleString()} compute units`
+                    : "Compute units unavailable"}
+                  {transactionState.simulation.error &&
+                    ` · ${formatProgramError(transactionState.simulation.error)}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-40 rounded-md border p-2">
+                  <pre className="text-xs whitespace-pre-wrap">
+                    {transactionState.simulation.logs.join("\n")}
+                  </pre>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Selection Requirements */}
           {!hasRequiredSelections && (
             <Alert>
@@ -588,10 +907,13 @@ export const VaultManager: React.FC = () => {
                       <p className="text-sm font-medium text-muted-foreground">
                         NFT
                       </p>
-                      <p className="font-mono text-sm">
-                        {selectedNFTPosition.nftMint.toBase58().slice(0, 8)}...
-                        {selectedNFTPosition.nftMint.toBase58().slice(-8)}
-                      </p>
+                      <ExplorerLink
+                        type="token"
+                        value={selectedNFTPosition.nftMint}
+                        className="font-mono text-sm"
+                      >
+                        {shortenKey(selectedNFTPosition.nftMint, 8)}
+                      </ExplorerLink>
                     </div>
                     <div className="space-y-1">
                       <p className="text-sm font-medium text-muted-foreground">
@@ -618,7 +940,7 @@ export const VaultManager: React.FC = () => {
                       </p>
                       <p className="text-sm">
                         {new Date(
-                          selectedNFTPosition.timestamp * 1000
+                          selectedNFTPosition.timestamp
                         ).toLocaleDateString()}
                       </p>
                     </div>
@@ -636,6 +958,96 @@ export const VaultManager: React.FC = () => {
               )}
             </CardContent>
           </Card>
+
+          {/* Portfolio across all identity NFTs */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="h-5 w-5" />
+                    All Positions
+                  </CardTitle>
+                  <CardDescription>
+                    Positions held by every identity NFT in this wallet
+                  </CardDescription>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => loadAllUserPositions()}
+                  disabled={portfolioLoading}
+                >
+                  {portfolioLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {allUserPositions.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground py-4">
+                  {portfolioLoading
+                    ? "Loading positions..."
+                    : "None of your identity NFTs hold a position in this vault"}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>NFT</TableHead>
+                      <TableHead className="text-right">Shares</TableHead>
+                      <TableHead className="text-right">Asset Value</TableHead>
+                      <TableHead className="text-right">Last Update</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {allUserPositions.map((position) => (
+                      <TableRow
+                        key={position.nftMint.toBase58()}
+                        className={
+                          selectedNFT?.equals(position.nftMint)
+                            ? "bg-muted/50"
+                            : undefined
+                        }
+                      >
+                        <TableCell className="font-mono text-xs">
+                          <ExplorerLink type="token" value={position.nftMint} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {position.shareAmount.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {position.depositAmount.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right text-xs">
+                          {new Date(position.timestamp).toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right">
+                        {allUserPositions
+                          .reduce((sum, p) => sum + p.shareAmount, 0)
+                          .toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {allUserPositions
+                          .reduce((sum, p) => sum + p.depositAmount, 0)
+                          .toLocaleString()}
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
 
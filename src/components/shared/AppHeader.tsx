@@ -5,9 +5,13 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
-import { Copy } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Copy } from "lucide-react";
 
 import { useTokenSelection, useNFTSelection } from "@/context/SelectionContext";
+import { ExplorerLink } from "@/components/shared/ExplorerLink";
+import { shortenKey } from "@/lib/explorer";
+import { useNetworkStore, selectGenesisStatus, selectNetworkError } from "@/store/networkStore";
 
 interface AppHeaderProps {
   title: string;
@@ -34,6 +38,8 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
   const { address } = useAppKitAccount();
   const { selectedTokenMint } = useTokenSelection();
   const { selectedNFT } = useNFTSelection();
+  const genesisStatus = useNetworkStore(selectGenesisStatus);
+  const networkError = useNetworkStore(selectNetworkError);
 
   console.log('[AppHeader] Props and state:', {
     title,
@@ -79,7 +85,9 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
               {address ? (
                 <>
                   <Badge variant="outline" className="font-mono">
-                    {address.slice(0, 4)}...{address.slice(-4)}
+                    <ExplorerLink type="address" value={address}>
+                      {shortenKey(address)}
+                    </ExplorerLink>
                   </Badge>
                   <Button
                     size="icon"
@@ -102,7 +110,7 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
               {selectedTokenMint ? (
                 <>
                   <Badge variant="default" className="font-mono">
-                    {selectedTokenMint.toBase58().slice(0, 8)}...
+                    <ExplorerLink type="token" value={selectedTokenMint} />
                   </Badge>
                   <Button
                     size="icon"
@@ -125,7 +133,7 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
               {selectedNFT ? (
                 <>
                   <Badge variant="default" className="font-mono">
-                    {selectedNFT.toBase58().slice(0, 8)}...
+                    <ExplorerLink type="token" value={selectedNFT} />
                   </Badge>
                   <Button
                     size="icon"
@@ -162,6 +170,16 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
             )}
           </div>
         )}
+
+        {/* Wallet and RPC disagree on the cluster - transactions are blocked */}
+        {genesisStatus === 'mismatch' && (
+          <Alert variant="destructive" className="mt-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {networkError} Switch the wallet or the RPC endpoint to the same cluster.
+            </AlertDescription>
+          </Alert>
+        )}
       </CardContent>
     </Card>
   );
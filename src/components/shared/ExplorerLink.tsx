@@ -0,0 +1,39 @@
+import React from "react";
+import { PublicKey } from "@solana/web3.js";
+import { ExternalLink } from "lucide-react";
+
+import { useExplorer } from "@/lib/useExplorer";
+import { shortenKey, type ExplorerLinkType } from "@/lib/explorer";
+import { cn } from "@/lib/utils";
+
+interface ExplorerLinkProps {
+  type: ExplorerLinkType;
+  value: string | PublicKey;
+  // Defaults to the shortened address or signature
+  children?: React.ReactNode;
+  className?: string;
+}
+
+// Opens the transaction/account on the user's preferred explorer for the active cluster
+export const ExplorerLink: React.FC<ExplorerLinkProps> = ({
+  type,
+  value,
+  children,
+  className,
+}) => {
+  const { getUrl, explorerLabel } = useExplorer();
+
+  return (
+    <a
+      href={getUrl(type, value)}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={`View on ${explorerLabel}`}
+      className={cn("inline-flex items-center gap-1 hover:underline", className)}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {children ?? shortenKey(value)}
+      <ExternalLink className="h-3 w-3 shrink-0" />
+    </a>
+  );
+};
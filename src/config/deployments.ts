@@ -0,0 +1,166 @@
+import { PublicKey } from '@solana/web3.js';
+
+export type ClusterName = 'localnet' | 'devnet' | 'testnet' | 'mainnet';
+
+export const CLUSTERS: ClusterName[] = ['localnet', 'devnet', 'testnet', 'mainnet'];
+
+// Everything that differs between clusters
+export interface ProgramDeployment {
+    cluster: ClusterName;
+
+    // Program IDs
+    VAULT_PROGRAM_ID: PublicKey;
+    NFT_PROGRAM_ID: PublicKey;
+    TOKEN_PROGRAM_ID: PublicKey;
+
+    // Core addresses
+    OWNER_ID: PublicKey;
+    VAULT_ASSET_MINT: PublicKey;
+    SHARE_MINT: PublicKey;
+    COLLECTION_PDA: PublicKey;
+
+    // Seeds suffix for vault PDAs (e.g. "v3" -> "vault_v3")
+    VAULT_VERSION: string;
+    // Every seed version vaults may have been created under, VAULT_VERSION first
+    VAULT_VERSIONS: string[];
+
+    TEST_TOKEN_MINTS: PublicKey[];
+    WORMHOLE_PROGRAM_ID: PublicKey | null;
+}
+
+// Cluster whose addresses come from the unprefixed VITE_* variables
+export const DEFAULT_CLUSTER: ClusterName =
+    (CLUSTERS as string[]).includes(import.meta.env.VITE_CLUSTER)
+        ? (import.meta.env.VITE_CLUSTER as ClusterName)
+        : 'testnet';
+
+// VITE_DEVNET_VAULT_PROGRAM_ID, then VITE_VAULT_PROGRAM_ID for the default cluster only
+export function readEnv(cluster: ClusterName, key: string): string | undefined {
+    const scoped = import.meta.env[`VITE_${cluster.toUpperCase()}_${key}`];
+    if (scoped) return scoped;
+    return cluster === DEFAULT_CLUSTER ? import.meta.env[`VITE_${key}`] : undefined;
+}
+
+function readPublicKey(cluster: ClusterName, key: string): PublicKey | null {
+    const value = readEnv(cluster, key);
+    if (!value) return null;
+    try {
+        return new PublicKey(value);
+    } catch {
+        throw new Error(`Invalid PublicKey for ${cluster} ${key}: ${value}`);
+    }
+}
+
+const REQUIRED_KEYS = [
+    'VAULT_PROGRAM_ID',
+    'NFT_PROGRAM_ID',
+    'TOKEN_PROGRAM_ID',
+    'OWNER_PUBKEY',
+    'VAULT_ASSET_MINT',
+    'SHARE_MINT',
+    'COLLECTION_PDA',
+] as const;
+
+// A cluster is only deployed when all of its required variables are present
+function loadDeployment(cluster: ClusterName): ProgramDeployment | null {
+    const keys = Object.fromEntries(
+        REQUIRED_KEYS.map((key) => [key, readPublicKey(cluster, key)])
+    ) as Record<typeof REQUIRED_KEYS[number], PublicKey | null>;
+    const vaultVersion = readEnv(cluster, 'VAULT_VERSION');
+
+    const missing = REQUIRED_KEYS.filter((key) => !keys[key]);
+    if (missing.length > 0 || !vaultVersion) {
+        if (missing.length < REQUIRED_KEYS.length) {
+            console.warn(`[Deployments] Incomplete ${cluster} deployment, missing:`, [
+                ...missing,
+                ...(vaultVersion ? [] : ['VAULT_VERSION']),
+            ]);
+        }
+        return null;
+    }
+
+    const mint1 = readPublicKey(cluster, 'MINT_1');
+    const extraVersions = (readEnv(cluster, 'VAULT_VERSIONS') ?? '')
+        .split(',')
+        .map((version) => version.trim())
+        .filter(Boolean);
+
+    return {
+        cluster,
+        VAULT_PROGRAM_ID: keys.VAULT_PROGRAM_ID!,
+        NFT_PROGRAM_ID: keys.NFT_PROGRAM_ID!,
+        TOKEN_PROGRAM_ID: keys.TOKEN_PROGRAM_ID!,
+        OWNER_ID: keys.OWNER_PUBKEY!,
+        VAULT_ASSET_MINT: keys.VAULT_ASSET_MINT!,
+        SHARE_MINT: keys.SHARE_MINT!,
+        COLLECTION_PDA: keys.COLLECTION_PDA!,
+        VAULT_VERSION: vaultVersion,
+        VAULT_VERSIONS: Array.from(new Set([vaultVersion, ...extraVersions])),
+        TEST_TOKEN_MINTS: mint1 ? [mint1] : [],
+        WORMHOLE_PROGRAM_ID: readPublicKey(cluster, 'WORMHOLE_PROGRAM_ID'),
+    };
+}
+
+export const DEPLOYMENTS: Partial<Record<ClusterName, ProgramDeployment>> = Object.fromEntries(
+    CLUSTERS
+        .map((cluster) => [cluster, loadDeployment(cluster)] as const)
+        .filter(([, deployment]) => deployment !== null)
+);
+
+// Thrown at startup so a misconfigured build fails loudly instead of in every CONFIG getter
+export class DeploymentConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DeploymentConfigError';
+    }
+}
+
+const defaultDeployment = DEPLOYMENTS[DEFAULT_CLUSTER];
+if (!defaultDeployment) {
+    throw new DeploymentConfigError(
+        `Missing deployment for default cluster "${DEFAULT_CLUSTER}" - check your VITE_* variables`
+    );
+}
+
+// Map the AppKit / networkStore network name onto a cluster
+export function resolveCluster(networkName: string | null | undefined): ClusterName | null {
+    if (!networkName) return null;
+    const name = networkName.toLowerCase();
+
+    if (name.includes('local')) return 'localnet';
+    if (name.includes('devnet')) return 'devnet';
+    if (name.includes('testnet')) return 'testnet';
+    if (name.includes('mainnet') || name === 'solana') return 'mainnet';
+    return null;
+}
+
+export function getDeployment(networkName: string | null | undefined): ProgramDeployment | null {
+    const cluster = resolveCluster(networkName);
+    return cluster ? DEPLOYMENTS[cluster] ?? null : null;
+}
+
+// Active deployment - switched by networkStore when the wallet changes cluster
+let activeDeployment: ProgramDeployment = defaultDeployment;
+
+export function getActiveDeployment(): ProgramDeployment {
+    return activeDeployment;
+}
+
+// Returns false (and keeps the current deployment) when the network has none
+export function setActiveDeployment(networkName: string | null | undefined): boolean {
+    const deployment = getDeployment(networkName);
+    if (!deployment) {
+        console.warn('[Deployments] No deployment configured for network:', networkName);
+        return false;
+    }
+
+    if (deployment !== activeDeployment) {
+        console.log('[Deployments] Switching active deployment:', {
+            from: activeDeployment.cluster,
+            to: deployment.cluster,
+            network: networkName
+        });
+        activeDeployment = deployment;
+    }
+    return true;
+}
@@ -1,7 +1,9 @@
 import { WagmiAdapter } from '@reown/appkit-adapter-wagmi'
-import { sepolia, solanaTestnet} from '@reown/appkit/networks'
+import { sepolia, solana, solanaDevnet, solanaTestnet } from '@reown/appkit/networks'
 import type { AppKitNetwork } from '@reown/appkit/networks'
 import { SolanaAdapter } from '@reown/appkit-adapter-solana/react'
+import { CLUSTERS, DEPLOYMENTS, type ClusterName } from '@/config/deployments'
+import { DEFAULT_RPC_ENDPOINTS } from '@/config/rpc'
 
 
 // Get projectId from https://cloud.reown.com
@@ -11,6 +13,10 @@ if (!projectId) {
   throw new Error('Project ID is not defined')
 }
 
+const localRpc = DEFAULT_RPC_ENDPOINTS.localnet[0]
+
+// The id is a placeholder, not the local validator's genesis hash (that changes on
+// every ledger reset); networkStore learns the real one from the RPC
 export const solanaLocal: AppKitNetwork = {
   id: '2G7gTWexYtKfRYKhLRHZ4UzDxm6kDimfUEZkR9pc4J4E',
   name: 'Solana Local',
@@ -18,10 +24,12 @@ export const solanaLocal: AppKitNetwork = {
   testnet: true,
   rpcUrls: {
     default: {
-      http: ['http://localhost:8899'],
-      webSocket: ['ws://localhost:8900']
+      http: [localRpc.http],
+      ...(localRpc.ws && { webSocket: [localRpc.ws] })
     }
   },
+  // AppKit appends /tx/... to this url, so it can't carry the customUrl query the
+  // explorer needs for a local RPC; in-app links go through lib/explorer.ts instead
   blockExplorers: {
     default: {
       name: 'Solana Explorer',
@@ -45,8 +53,38 @@ export const metadata = {
     icons: ['https://avatars.githubusercontent.com/u/179229932']
   }
 
+export const SOLANA_NETWORKS: Record<ClusterName, AppKitNetwork> = {
+  localnet: solanaLocal,
+  devnet: solanaDevnet,
+  testnet: solanaTestnet,
+  mainnet: solana,
+}
+
+// VITE_SOLANA_NETWORKS=localnet,devnet,... picks the clusters offered in AppKit;
+// defaults to every cluster that has a deployment
+function loadSolanaClusters(): ClusterName[] {
+  const configured = import.meta.env.VITE_SOLANA_NETWORKS as string | undefined
+  if (!configured) {
+    return CLUSTERS.filter((cluster) => DEPLOYMENTS[cluster])
+  }
+
+  const clusters = configured.split(',').map((name) => name.trim().toLowerCase())
+  const unknown = clusters.filter((name) => !(CLUSTERS as string[]).includes(name))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown cluster(s) in VITE_SOLANA_NETWORKS: ${unknown.join(', ')}`)
+  }
+  return CLUSTERS.filter((cluster) => clusters.includes(cluster))
+}
+
+export const solanaClusters = loadSolanaClusters()
+
 // for custom networks visit -> https://docs.reown.com/appkit/react/core/custom-networks
-export const networks = [sepolia, solanaTestnet] as [AppKitNetwork, ...AppKitNetwork[]]
+// createAppKit hands each adapter the networks of its namespace, so the Solana
+// clusters listed here are the ones the Solana adapter can switch between
+export const networks = [
+  sepolia,
+  ...solanaClusters.map((cluster) => SOLANA_NETWORKS[cluster]),
+] as [AppKitNetwork, ...AppKitNetwork[]]
 
 //Set up the Wagmi Adapter (Config)
 export const wagmiAdapter = new WagmiAdapter({
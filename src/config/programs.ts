@@ -1,66 +1,114 @@
 import { PublicKey } from '@solana/web3.js';
 import { getAssociatedTokenAddressSync } from '@solana/spl-token';
 
-// Validation helper
-function requireEnv(key: string): string {
-    const value = import.meta.env[key];
-    if (!value) {
-        throw new Error(`Missing required environment variable: ${key}`);
-    }
-    return value;
-}
-
-function requirePublicKey(key: string): PublicKey {
-    const value = requireEnv(key);
-    try {
-        return new PublicKey(value);
-    } catch (err) {
-        throw new Error(`Invalid PublicKey for ${key}: ${value}`);
-    }
-}
+import { getActiveDeployment } from './deployments';
+import UNIQUE_LOW_IDL from '@/idl/unique_low.json';
 
+// Addresses resolve through the active deployment (see deployments.ts), so reads
+// always reflect the cluster the wallet is currently on
 export const CONFIG = {
     // Program IDs
-    VAULT_PROGRAM_ID: requirePublicKey('VITE_VAULT_PROGRAM_ID'),
-    NFT_PROGRAM_ID: requirePublicKey('VITE_NFT_PROGRAM_ID'),
-    TOKEN_PROGRAM_ID: requirePublicKey('VITE_TOKEN_PROGRAM_ID'),
+    get VAULT_PROGRAM_ID(): PublicKey { return getActiveDeployment().VAULT_PROGRAM_ID; },
+    get NFT_PROGRAM_ID(): PublicKey { return getActiveDeployment().NFT_PROGRAM_ID; },
+    get TOKEN_PROGRAM_ID(): PublicKey { return getActiveDeployment().TOKEN_PROGRAM_ID; },
 
     // Core addresses
-    OWNER_ID: requirePublicKey('VITE_OWNER_PUBKEY'),
-    VAULT_ASSET_MINT: requirePublicKey('VITE_VAULT_ASSET_MINT'),
-    SHARE_MINT: requirePublicKey('VITE_SHARE_MINT'),
-    COLLECTION_PDA: requirePublicKey('VITE_COLLECTION_PDA'),
+    get OWNER_ID(): PublicKey { return getActiveDeployment().OWNER_ID; },
+    get VAULT_ASSET_MINT(): PublicKey { return getActiveDeployment().VAULT_ASSET_MINT; },
+    get SHARE_MINT(): PublicKey { return getActiveDeployment().SHARE_MINT; },
+    get COLLECTION_PDA(): PublicKey { return getActiveDeployment().COLLECTION_PDA; },
 
     // Network
-    // RPC_URL: requireEnv('VITE_RPC_URL'),
-    // NETWORK: requireEnv('VITE_NETWORK'),
-    VAULT_VERSION: requireEnv('VITE_VAULT_VERSION'),
+    get CLUSTER() { return getActiveDeployment().cluster; },
+    get VAULT_VERSION(): string { return getActiveDeployment().VAULT_VERSION; },
+    get VAULT_VERSIONS(): string[] { return getActiveDeployment().VAULT_VERSIONS; },
 
     // Seeds (matching your constants.rs)
-    SEEDS: {
-        VAULT: Buffer.from("vault_" + requireEnv('VITE_VAULT_VERSION')),
-        USER_INFO: Buffer.from("user_info_" + requireEnv('VITE_VAULT_VERSION')),
-        USER_SHARES: Buffer.from("user_shares_" + requireEnv('VITE_VAULT_VERSION')),
-        COLLECTION: Buffer.from("collection"),
-        USER_STATE: Buffer.from("user_state"),
+    get SEEDS() {
+        const version = getActiveDeployment().VAULT_VERSION;
+        return {
+            VAULT: Buffer.from("vault_" + version),
+            USER_INFO: Buffer.from("user_info_" + version),
+            USER_SHARES: Buffer.from("user_shares_" + version),
+            COLLECTION: Buffer.from("collection"),
+            USER_STATE: Buffer.from("user_state"),
+        };
     },
 
-    TEST_TOKEN_MINTS: [
-        requirePublicKey('VITE_MINT_1'),
-    ],
-} as const;
+    get TEST_TOKEN_MINTS(): PublicKey[] { return getActiveDeployment().TEST_TOKEN_MINTS; },
+
+    // Wormhole core bridge used when initializing a new collection.
+    // Point this at a stub program for local validator testing.
+    get WORMHOLE_PROGRAM_ID(): PublicKey | null { return getActiveDeployment().WORMHOLE_PROGRAM_ID; },
+
+    // Wormhole chain ids for the EVM networks configured in AppKit (keyed by EVM chain id)
+    WORMHOLE_CHAIN_IDS: {
+        11155111: 10002, // Sepolia
+    } as Record<number, number>,
+};
+
+// Bundled IDLs carry one cluster's address; rebind them to the active deployment
+export function withProgramAddress<T extends { address: string }>(idl: T, programId: PublicKey): T {
+    return { ...idl, address: programId.toBase58() };
+}
+
+// Everything needed to derive accounts for one vault among several
+export interface VaultRef {
+    address: PublicKey;
+    version: string;
+    assetMint: PublicKey;
+    owner: PublicKey;
+    shareMint: PublicKey;
+}
 
 // Utility functions for deriving all PDAs and accounts
 export class VaultUtils {
 
-    // Core vault PDA
-    static getVaultPDA(): [PublicKey, number] {
+    // Version-scoped vault seeds; CONFIG.SEEDS is the configured version
+    static getSeeds(version: string = CONFIG.VAULT_VERSION) {
+        return {
+            VAULT: Buffer.from("vault_" + version),
+            USER_INFO: Buffer.from("user_info_" + version),
+            USER_SHARES: Buffer.from("user_shares_" + version),
+        };
+    }
+
+    // Core vault PDA (defaults to the configured asset mint, owner and version)
+    static getVaultPDA(
+        assetMint: PublicKey = CONFIG.VAULT_ASSET_MINT,
+        owner: PublicKey = CONFIG.OWNER_ID,
+        version: string = CONFIG.VAULT_VERSION
+    ): [PublicKey, number] {
         return PublicKey.findProgramAddressSync(
-            [CONFIG.SEEDS.VAULT, CONFIG.VAULT_ASSET_MINT.toBuffer(), CONFIG.OWNER_ID.toBuffer()],
+            [this.getSeeds(version).VAULT, assetMint.toBuffer(), owner.toBuffer()],
             CONFIG.VAULT_PROGRAM_ID
         );
     }
 
+    // Vaults are keyed by asset mint and seed version in the vault store
+    static getVaultKey(assetMint: PublicKey, version: string): string {
+        return `${version}:${assetMint.toBase58()}`;
+    }
+
+    // The version is not stored on-chain; recover it by re-deriving the PDA
+    // under each configured version until one matches the account address
+    static matchVaultVersion(address: PublicKey, assetMint: PublicKey, owner: PublicKey): string | null {
+        return CONFIG.VAULT_VERSIONS.find((version) =>
+            this.getVaultPDA(assetMint, owner, version)[0].equals(address)
+        ) ?? null;
+    }
+
+    // The vault described by the active deployment's env variables
+    static getDefaultVaultRef(): VaultRef {
+        return {
+            address: this.getVaultPDA()[0],
+            version: CONFIG.VAULT_VERSION,
+            assetMint: CONFIG.VAULT_ASSET_MINT,
+            owner: CONFIG.OWNER_ID,
+            shareMint: CONFIG.SHARE_MINT,
+        };
+    }
+
     // Collection PDA (from NFT program)
     static getCollectionPDA(): [PublicKey, number] {
         return PublicKey.findProgramAddressSync(
@@ -70,17 +118,21 @@ export class VaultUtils {
     }
 
     // User shares PDA for a specific NFT
-    static getUserSharesPDA(nftMint: PublicKey): [PublicKey, number] {
+    static getUserSharesPDA(nftMint: PublicKey, version: string = CONFIG.VAULT_VERSION): [PublicKey, number] {
         return PublicKey.findProgramAddressSync(
-            [CONFIG.SEEDS.USER_SHARES, nftMint.toBuffer()],
+            [this.getSeeds(version).USER_SHARES, nftMint.toBuffer()],
             CONFIG.VAULT_PROGRAM_ID
         );
     }
 
     // User info PDA
-    static getUserInfoPDA(nftTokenAccount: PublicKey, shareTokenAccount: PublicKey): [PublicKey, number] {
+    static getUserInfoPDA(
+        nftTokenAccount: PublicKey,
+        shareTokenAccount: PublicKey,
+        version: string = CONFIG.VAULT_VERSION
+    ): [PublicKey, number] {
         return PublicKey.findProgramAddressSync(
-            [CONFIG.SEEDS.USER_INFO, nftTokenAccount.toBuffer(), shareTokenAccount.toBuffer()],
+            [this.getSeeds(version).USER_INFO, nftTokenAccount.toBuffer(), shareTokenAccount.toBuffer()],
             CONFIG.VAULT_PROGRAM_ID
         );
     }
@@ -94,18 +146,32 @@ export class VaultUtils {
     }
 
     // Associated token accounts
-    static getVaultTokenAccount(): PublicKey {
-        const [vaultPda] = this.getVaultPDA();
+    static getVaultTokenAccount(
+        assetMint: PublicKey = CONFIG.VAULT_ASSET_MINT,
+        owner: PublicKey = CONFIG.OWNER_ID,
+        version: string = CONFIG.VAULT_VERSION
+    ): PublicKey {
+        const [vaultPda] = this.getVaultPDA(assetMint, owner, version);
         return getAssociatedTokenAddressSync(
-            CONFIG.VAULT_ASSET_MINT,
+            assetMint,
             vaultPda,
             true // allowOwnerOffCurve for PDA
         );
     }
 
-    static getUserAssetTokenAccount(userPubkey: PublicKey): PublicKey {
+    // Only the configured owner can initialize or close vaults
+    static isVaultOwner(wallet: PublicKey | string | null | undefined): boolean {
+        if (!wallet) return false;
+        const key = typeof wallet === 'string' ? wallet : wallet.toBase58();
+        return key === CONFIG.OWNER_ID.toBase58();
+    }
+
+    static getUserAssetTokenAccount(
+        userPubkey: PublicKey,
+        assetMint: PublicKey = CONFIG.VAULT_ASSET_MINT
+    ): PublicKey {
         return getAssociatedTokenAddressSync(
-            CONFIG.VAULT_ASSET_MINT,
+            assetMint,
             userPubkey
         );
     }
@@ -117,26 +183,36 @@ export class VaultUtils {
         );
     }
 
-    static getUserShareTokenAccount(userSharesPda: PublicKey): PublicKey {
+    static getUserShareTokenAccount(
+        userSharesPda: PublicKey,
+        shareMint: PublicKey = CONFIG.SHARE_MINT
+    ): PublicKey {
         return getAssociatedTokenAddressSync(
-            CONFIG.SHARE_MINT,
+            shareMint,
             userSharesPda,
             true // allowOwnerOffCurve for PDA
         );
     }
 
     // Convenience method to get all derived accounts for a user operation
-    static getDerivedAccountsForUser(userPubkey: PublicKey, nftMint: PublicKey) {
-        const [vaultPda, vaultBump] = this.getVaultPDA();
+    // against the given vault (the configured vault when omitted)
+    static getDerivedAccountsForUser(
+        userPubkey: PublicKey,
+        nftMint: PublicKey,
+        vaultRef: VaultRef = this.getDefaultVaultRef()
+    ) {
+        const { version, assetMint, owner, shareMint } = vaultRef;
+
+        const [vaultPda, vaultBump] = this.getVaultPDA(assetMint, owner, version);
         const [collectionPda, collectionBump] = this.getCollectionPDA();
-        const [userSharesPda, userSharesBump] = this.getUserSharesPDA(nftMint);
+        const [userSharesPda, userSharesBump] = this.getUserSharesPDA(nftMint, version);
 
         const userNftTokenAccount = this.getUserNFTTokenAccount(userPubkey, nftMint);
-        const userAssetTokenAccount = this.getUserAssetTokenAccount(userPubkey);
-        const userShareTokenAccount = this.getUserShareTokenAccount(userSharesPda);
-        const vaultTokenAccount = this.getVaultTokenAccount();
+        const userAssetTokenAccount = this.getUserAssetTokenAccount(userPubkey, assetMint);
+        const userShareTokenAccount = this.getUserShareTokenAccount(userSharesPda, shareMint);
+        const vaultTokenAccount = this.getVaultTokenAccount(assetMint, owner, version);
 
-        const [userInfoPda, userInfoBump] = this.getUserInfoPDA(userNftTokenAccount, userShareTokenAccount);
+        const [userInfoPda, userInfoBump] = this.getUserInfoPDA(userNftTokenAccount, userShareTokenAccount, version);
 
         return {
             // PDAs with bumps
@@ -156,4 +232,89 @@ export class VaultUtils {
             vaultTokenAccount,
         };
     }
-}
\ No newline at end of file
+}
+// Wormhole core bridge accounts used by unique_low's request_cross_chain_mint.
+// The bridge program id comes from the collection, so a stubbed bridge works the same way.
+export class WormholeUtils {
+
+    static getBridgeConfigPDA(wormholeProgramId: PublicKey): [PublicKey, number] {
+        return PublicKey.findProgramAddressSync(
+            [Buffer.from("Bridge")],
+            wormholeProgramId
+        );
+    }
+
+    static getFeeCollectorPDA(wormholeProgramId: PublicKey): [PublicKey, number] {
+        return PublicKey.findProgramAddressSync(
+            [Buffer.from("fee_collector")],
+            wormholeProgramId
+        );
+    }
+
+    // Emitter is owned by the sending program, not the bridge
+    static getEmitterPDA(): [PublicKey, number] {
+        return PublicKey.findProgramAddressSync(
+            [Buffer.from("emitter")],
+            CONFIG.NFT_PROGRAM_ID
+        );
+    }
+
+    static getSequencePDA(wormholeProgramId: PublicKey, emitter: PublicKey): [PublicKey, number] {
+        return PublicKey.findProgramAddressSync(
+            [Buffer.from("Sequence"), emitter.toBuffer()],
+            wormholeProgramId
+        );
+    }
+
+    // Address the bundled unique_low IDL fixes wormhole_program to, if any. The
+    // program checks it on-chain, so no other bridge can be passed while it is set
+    static getPinnedWormholeProgram(): PublicKey | null {
+        const instruction = UNIQUE_LOW_IDL.instructions.find((ix) => ix.name === 'request_cross_chain_mint');
+        const account = instruction?.accounts.find((a) => a.name === 'wormhole_program');
+        return account && 'address' in account && account.address ? new PublicKey(account.address) : null;
+    }
+
+    // Why request_cross_chain_mint can't reach the collection's bridge, or null when it can
+    static getCrossChainSupportError(wormholeProgramId: PublicKey): string | null {
+        const pinned = WormholeUtils.getPinnedWormholeProgram();
+        if (!pinned || pinned.equals(wormholeProgramId)) return null;
+        return `The deployed unique_low program only accepts ${pinned.toBase58()} as wormhole_program, ` +
+            `not the collection's bridge ${wormholeProgramId.toBase58()}. Rebuild it without that ` +
+            `address constraint and regenerate src/idl/unique_low.json`;
+    }
+
+    // Message account is a PDA of the sending program keyed by the sequence it will be posted under.
+    // Not described by the IDL: this matches a program that signs for ["sent", sequence]
+    static getMessagePDA(sequence: bigint): [PublicKey, number] {
+        const sequenceBytes = Buffer.alloc(8);
+        sequenceBytes.writeBigUInt64LE(sequence);
+        return PublicKey.findProgramAddressSync(
+            [Buffer.from("sent"), sequenceBytes],
+            CONFIG.NFT_PROGRAM_ID
+        );
+    }
+
+    // Sequence tracker stores the next sequence as a little-endian u64; missing account means 0
+    static decodeNextSequence(data: Buffer | null | undefined): bigint {
+        if (!data || data.length < 8) return 0n;
+        return data.readBigUInt64LE(0);
+    }
+
+    static getWormholeChainId(evmChainId: number | string | undefined): number | null {
+        if (evmChainId === undefined) return null;
+        return CONFIG.WORMHOLE_CHAIN_IDS[Number(evmChainId)] ?? null;
+    }
+
+    // Left-pad a 20-byte EVM address into Wormhole's 32-byte universal address
+    static evmAddressToBytes32(address: string): number[] {
+        const hex = address.toLowerCase().replace(/^0x/, '');
+        if (!/^[0-9a-f]{40}$/.test(hex)) {
+            throw new Error(`Invalid EVM address: ${address}`);
+        }
+        const bytes = new Array<number>(32).fill(0);
+        for (let i = 0; i < 20; i++) {
+            bytes[12 + i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+        }
+        return bytes;
+    }
+}
@@ -0,0 +1,72 @@
+import { CLUSTERS, readEnv, type ClusterName } from '@/config/deployments';
+
+export interface RpcEndpoint {
+    http: string;
+    // Derived from the HTTP url by web3.js when null
+    ws: string | null;
+}
+
+const PUBLIC_ENDPOINTS: Record<ClusterName, RpcEndpoint> = {
+    localnet: { http: 'http://localhost:8899', ws: 'ws://localhost:8900' },
+    devnet: { http: 'https://api.devnet.solana.com', ws: null },
+    testnet: { http: 'https://api.testnet.solana.com', ws: null },
+    mainnet: { http: 'https://api.mainnet-beta.solana.com', ws: null },
+};
+
+// VITE_<CLUSTER>_RPC_URL / _WS_URL first, then RPC_BACKUP_URLS (comma separated),
+// then the public endpoint as the last resort
+function loadEndpoints(cluster: ClusterName): RpcEndpoint[] {
+    const endpoints: RpcEndpoint[] = [];
+
+    const primary = readEnv(cluster, 'RPC_URL');
+    if (primary) {
+        endpoints.push({ http: primary, ws: readEnv(cluster, 'WS_URL') ?? null });
+    }
+
+    const backups = readEnv(cluster, 'RPC_BACKUP_URLS');
+    backups?.split(',').map((url) => url.trim()).filter(Boolean).forEach((http) => {
+        endpoints.push({ http, ws: null });
+    });
+
+    endpoints.push(PUBLIC_ENDPOINTS[cluster]);
+
+    return endpoints.filter((endpoint, index) =>
+        endpoints.findIndex((other) => other.http === endpoint.http) === index
+    );
+}
+
+export const DEFAULT_RPC_ENDPOINTS = Object.fromEntries(
+    CLUSTERS.map((cluster) => [cluster, loadEndpoints(cluster)])
+) as Record<ClusterName, RpcEndpoint[]>;
+
+// Returns an error message, or null when the endpoint can be used
+export function validateRpcEndpoint(endpoint: RpcEndpoint): string | null {
+    const check = (value: string, protocols: string[], label: string) => {
+        try {
+            const url = new URL(value);
+            return protocols.includes(url.protocol)
+                ? null
+                : `${label} must use ${protocols.map((p) => p.replace(':', '')).join(' or ')}`;
+        } catch {
+            return `${label} is not a valid URL`;
+        }
+    };
+
+    return check(endpoint.http, ['http:', 'https:'], 'HTTP endpoint')
+        ?? (endpoint.ws ? check(endpoint.ws, ['ws:', 'wss:'], 'WebSocket endpoint') : null);
+}
+
+// Genesis hashes of the public clusters; localnet's changes with every
+// validator reset, so networkStore learns it from the first RPC it talks to
+export const CLUSTER_GENESIS_HASHES: Record<Exclude<ClusterName, 'localnet'>, string> = {
+    devnet: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+    testnet: '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY',
+    mainnet: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d',
+};
+
+// CAIP-2 Solana chain ids carry the first 32 characters of the genesis hash
+export function clusterForGenesisHash(hash: string): ClusterName | null {
+    const prefix = hash.slice(0, 32);
+    const match = Object.entries(CLUSTER_GENESIS_HASHES).find(([, genesis]) => genesis.slice(0, 32) === prefix);
+    return match ? (match[0] as ClusterName) : null;
+}
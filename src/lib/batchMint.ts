@@ -0,0 +1,61 @@
+// Rows per transaction when funding many wallets. Each row is a mint_tokens
+// call plus an ATA create and a transfer; six distinct recipients is the most
+// that fits in a 1232-byte packet, so this leaves some headroom
+export const BATCH_MINT_ROWS_PER_TRANSACTION = 5;
+
+export interface BatchMintRow {
+    // 1-based line (CSV) or array index (JSON), for reporting back to the user
+    row: number;
+    address: string;
+    // Kept as typed; parsed against the mint's decimals when the batch runs
+    amount: string;
+}
+
+export type BatchMintStatus = 'success' | 'failed';
+
+export interface BatchMintResult extends BatchMintRow {
+    status: BatchMintStatus;
+    signature: string | null;
+    error: string | null;
+}
+
+const parseJsonRows = (text: string): BatchMintRow[] => {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data)) {
+        throw new Error('JSON input must be an array of rows');
+    }
+
+    // Accepts [{ "address": ..., "amount": ... }] or [[address, amount]]
+    return data.map((entry, i) => {
+        const [address, amount] = Array.isArray(entry)
+            ? entry
+            : [(entry as Record<string, unknown>)?.address, (entry as Record<string, unknown>)?.amount];
+        return { row: i + 1, address: String(address ?? '').trim(), amount: String(amount ?? '').trim() };
+    });
+};
+
+const parseCsvRows = (text: string): BatchMintRow[] => {
+    const rows: BatchMintRow[] = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+
+        const [address = '', amount = ''] = trimmed.split(',').map((cell) => cell.trim());
+        // Optional header row
+        if (rows.length === 0 && address.toLowerCase() === 'address') return;
+
+        rows.push({ row: i + 1, address, amount });
+    });
+    return rows;
+};
+
+/**
+ * Parse an `address,amount` list, either CSV (one row per line, optional
+ * header, `#` comments) or a JSON array. Only malformed JSON throws; bad
+ * addresses and amounts are reported per row when the batch runs.
+ */
+export const parseBatchMintInput = (text: string): BatchMintRow[] => {
+    const trimmed = text.trim();
+    if (!trimmed) return [];
+    return trimmed.startsWith('[') ? parseJsonRows(trimmed) : parseCsvRows(text);
+};
@@ -0,0 +1,92 @@
+import { PublicKey } from '@solana/web3.js';
+
+import { getActiveDeployment, resolveCluster, type ClusterName } from '@/config/deployments';
+import { useNetworkStore } from '@/store/networkStore';
+
+export type ExplorerName = 'solana-explorer' | 'solscan' | 'solanafm';
+
+export const EXPLORERS: ExplorerName[] = ['solana-explorer', 'solscan', 'solanafm'];
+
+export const EXPLORER_LABELS: Record<ExplorerName, string> = {
+    'solana-explorer': 'Solana Explorer',
+    solscan: 'Solscan',
+    solanafm: 'SolanaFM',
+};
+
+export type ExplorerLinkType = 'tx' | 'address' | 'token';
+
+interface ExplorerSpec {
+    baseUrl: string;
+    paths: Record<ExplorerLinkType, string>;
+    // Query parameters selecting the cluster; localnet receives the RPC url
+    clusterParams: (cluster: ClusterName, rpcUrl: string) => Record<string, string>;
+}
+
+const EXPLORER_SPECS: Record<ExplorerName, ExplorerSpec> = {
+    'solana-explorer': {
+        baseUrl: 'https://explorer.solana.com',
+        paths: { tx: 'tx', address: 'address', token: 'address' },
+        clusterParams: (cluster, rpcUrl): Record<string, string> => {
+            if (cluster === 'mainnet') return {};
+            if (cluster === 'localnet') return { cluster: 'custom', customUrl: rpcUrl };
+            return { cluster };
+        },
+    },
+    solscan: {
+        baseUrl: 'https://solscan.io',
+        paths: { tx: 'tx', address: 'account', token: 'token' },
+        clusterParams: (cluster, rpcUrl): Record<string, string> => {
+            if (cluster === 'mainnet') return {};
+            if (cluster === 'localnet') return { cluster: 'custom', customUrl: rpcUrl };
+            return { cluster };
+        },
+    },
+    solanafm: {
+        baseUrl: 'https://solana.fm',
+        paths: { tx: 'tx', address: 'address', token: 'address' },
+        // SolanaFM's localnet cluster always reads from localhost:8899
+        clusterParams: (cluster): Record<string, string> => {
+            const names: Record<ClusterName, string | null> = {
+                mainnet: null,
+                devnet: 'devnet-solana',
+                testnet: 'testnet-solana',
+                localnet: 'localnet-solana',
+            };
+            const name = names[cluster];
+            return name ? { cluster: name } : {};
+        },
+    },
+};
+
+// "5Xyz...9abc" for badges and toasts
+export const shortenKey = (value: string | PublicKey, chars: number = 4): string => {
+    const text = typeof value === 'string' ? value : value.toBase58();
+    return `${text.slice(0, chars)}...${text.slice(-chars)}`;
+};
+
+export interface ExplorerUrlOptions {
+    explorer: ExplorerName;
+    // Defaults to the network in networkStore
+    network?: string | null;
+}
+
+/**
+ * Link to a transaction, account or token mint on the chosen explorer, for
+ * the cluster of the active network. Unrecognized network names fall back to
+ * the active deployment's cluster.
+ */
+export const getExplorerUrl = (
+    type: ExplorerLinkType,
+    value: string | PublicKey,
+    { explorer, network }: ExplorerUrlOptions
+): string => {
+    const networkState = useNetworkStore.getState();
+    const cluster = resolveCluster(network === undefined ? networkState.currentNetwork : network)
+        ?? getActiveDeployment().cluster;
+    const spec = EXPLORER_SPECS[explorer];
+
+    const id = typeof value === 'string' ? value : value.toBase58();
+    const query = new URLSearchParams(spec.clusterParams(cluster, networkState.getRpcUrl())).toString();
+
+    return `${spec.baseUrl}/${spec.paths[type]}/${id}${query ? `?${query}` : ''}`;
+};
@@ -0,0 +1,269 @@
+import { AnchorError, LangErrorMessage } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+
+import SimpleVaultIDL from '@/idl/simple_vault.json';
+import UniqueLowIDL from '@/idl/unique_low.json';
+import TestTokenIDL from '@/idl/test_token.json';
+
+import { CONFIG } from '@/config/programs';
+
+export type ProgramName = 'simple_vault' | 'unique_low' | 'test_token';
+
+// Non-program sources are kept distinct so the UI can tell a wallet
+// rejection from an on-chain failure
+export type ErrorSource = ProgramName | 'anchor' | 'wallet' | 'system' | 'network' | 'unknown';
+
+export interface DecodedProgramError {
+    program: ErrorSource;
+    code: number | null;
+    name: string;
+    userMessage: string;
+    // Raw error text for logs and bug reports; never shown as the message itself
+    detail?: string;
+}
+
+interface IdlErrorEntry {
+    code: number;
+    name: string;
+    msg?: string;
+}
+
+const IDL_ERRORS: Record<ProgramName, IdlErrorEntry[]> = {
+    simple_vault: SimpleVaultIDL.errors,
+    unique_low: UniqueLowIDL.errors,
+    test_token: (TestTokenIDL as { errors?: IdlErrorEntry[] }).errors ?? [],
+};
+
+// Friendlier wording for the codes users actually hit; falls back to the IDL msg
+const USER_MESSAGES: Record<ProgramName, Record<number, string>> = {
+    simple_vault: {
+        6000: 'Enter an amount greater than zero.',
+        6001: 'The selected NFT does not belong to the collection this vault accepts.',
+        6002: 'This NFT position does not hold enough shares for that withdrawal.',
+        6003: 'The vault does not have enough liquid assets to pay out this withdrawal right now.',
+        6004: 'The amount is too large for the vault to process. Try a smaller amount.',
+    },
+    unique_low: {
+        6000: 'This unique ID has already been minted.',
+        6001: 'The connected wallet does not own this identity NFT.',
+        6002: 'The Wormhole sequence account returned invalid data.',
+        6003: 'This mint is not part of the identity collection.',
+        6004: 'No identity NFT exists for this unique ID.',
+        6005: 'No identity NFT exists for this token ID.',
+    },
+    test_token: {},
+};
+
+// Runtime InstructionError variants (non-custom), keyed by their JSON name
+const INSTRUCTION_ERROR_MESSAGES: Record<string, string> = {
+    GenericError: 'The program failed while processing the transaction.',
+    InvalidArgument: 'The program received an invalid argument.',
+    InvalidInstructionData: 'The instruction data was not valid for this program.',
+    InvalidAccountData: 'An account passed to the program holds unexpected data.',
+    AccountDataTooSmall: 'An account is too small for the data the program needs to write.',
+    InsufficientFunds: 'An account does not have enough funds for this operation.',
+    IncorrectProgramId: 'An account belongs to a different program than expected.',
+    MissingRequiredSignature: 'A required signature is missing from the transaction.',
+    AccountAlreadyInitialized: 'This account has already been initialized.',
+    UninitializedAccount: 'An account the program needs has not been initialized yet.',
+    NotEnoughAccountKeys: 'The transaction did not pass all the accounts the program needs.',
+    AccountNotRentExempt: 'An account does not hold enough SOL to be rent exempt.',
+    InvalidSeeds: 'An account address does not match the seeds the program expects.',
+    IncorrectAuthority: 'The signer is not the authority for this account.',
+    InvalidAccountOwner: 'An account is owned by an unexpected program.',
+    ArithmeticOverflow: 'The amount is too large for the program to process.',
+    ComputationalBudgetExceeded: 'The transaction ran out of compute units. Try again with a higher fee tier.',
+    ProgramFailedToComplete: 'The program did not finish processing the transaction.',
+    AccountBorrowFailed: 'The program could not access one of its accounts.',
+    ExternalAccountDataModified: 'The program tried to modify an account it does not own.',
+    ExternalAccountLamportSpend: 'The program tried to spend SOL from an account it does not own.',
+    ReadonlyDataModified: 'The program tried to modify a read-only account.',
+    ReadonlyLamportChange: 'The program tried to move SOL out of a read-only account.',
+    PrivilegeEscalation: 'The program requested permissions the transaction did not grant.',
+    InvalidRealloc: 'The program tried to resize an account beyond what is allowed.',
+    MaxSeedLengthExceeded: 'An account seed is too long.',
+    Immutable: 'The account is immutable and cannot be changed.',
+    UnsupportedSysvar: 'The program requested a sysvar that is not supported.',
+};
+
+// Transaction-level errors reported instead of an InstructionError
+const TRANSACTION_ERROR_MESSAGES: Record<string, string> = {
+    AccountNotFound: 'The fee payer account was not found. Fund the wallet and try again.',
+    InsufficientFundsForFee: 'Not enough SOL to pay for this transaction.',
+    InsufficientFundsForRent: 'Not enough SOL to keep a new account rent exempt.',
+    BlockhashNotFound: 'The transaction expired before it was confirmed. Please try again.',
+    AlreadyProcessed: 'This transaction has already been processed.',
+    AccountInUse: 'An account is busy with another transaction. Please try again.',
+    ProgramAccountNotFound: 'The program is not deployed on this network.',
+    InvalidAccountForFee: 'The fee payer account cannot pay fees.',
+};
+
+const PROGRAM_IDS: Record<ProgramName, () => PublicKey> = {
+    simple_vault: () => CONFIG.VAULT_PROGRAM_ID,
+    unique_low: () => CONFIG.NFT_PROGRAM_ID,
+    test_token: () => CONFIG.TOKEN_PROGRAM_ID,
+};
+
+export const getProgramName = (programId: PublicKey | string | null | undefined): ProgramName | null => {
+    if (!programId) return null;
+    const id = typeof programId === 'string' ? programId : programId.toBase58();
+    const match = (Object.keys(PROGRAM_IDS) as ProgramName[]).find(
+        (name) => PROGRAM_IDS[name]().toBase58() === id
+    );
+    return match ?? null;
+};
+
+// Build the structured error for a known program code (also used for client-side checks)
+export const getProgramError = (program: ProgramName, code: number): DecodedProgramError => {
+    const entry = IDL_ERRORS[program].find((e) => e.code === code);
+    return {
+        program,
+        code,
+        name: entry?.name ?? `Custom${code}`,
+        userMessage: USER_MESSAGES[program][code] ?? entry?.msg ?? `Program error ${code}`,
+    };
+};
+
+const extractLogs = (err: unknown): string[] => {
+    if (!err || typeof err !== 'object') return [];
+    const candidate = err as { logs?: unknown; transactionLogs?: unknown; simulationResponse?: { logs?: unknown } };
+    const logs = candidate.logs ?? candidate.transactionLogs ?? candidate.simulationResponse?.logs;
+    return Array.isArray(logs) ? logs.filter((l): l is string => typeof l === 'string') : [];
+};
+
+const extractMessage = (err: unknown): string => {
+    if (err instanceof Error) return err.message;
+    if (typeof err === 'string') return err;
+    try {
+        return JSON.stringify(err);
+    } catch {
+        return String(err);
+    }
+};
+
+// The innermost "Program X failed" line names the program that raised the error
+const findFailingProgram = (logs: string[]): string | null => {
+    for (let i = logs.length - 1; i >= 0; i--) {
+        const match = logs[i].match(/^Program (\w+) failed/);
+        if (match) return match[1];
+    }
+    return null;
+};
+
+const fromCode = (programId: string | null, code: number): DecodedProgramError => {
+    const program = getProgramName(programId);
+
+    if (program && code >= 6000) {
+        return getProgramError(program, code);
+    }
+
+    const langMessage = LangErrorMessage.get(code);
+    if (langMessage) {
+        return { program: 'anchor', code, name: `AnchorError${code}`, userMessage: langMessage };
+    }
+
+    return {
+        program: program ?? 'unknown',
+        code,
+        name: `Custom${code}`,
+        userMessage: `Program ${programId ?? 'unknown'} failed with error ${code}`,
+    };
+};
+
+/**
+ * Decode any error thrown by wallet signing, RPC submission or Anchor into
+ * a structured {program, code, name, userMessage}.
+ */
+export const decodeProgramError = (err: unknown): DecodedProgramError => {
+    const message = extractMessage(err);
+    const logs = extractLogs(err);
+
+    // Anchor-raised errors (typed errors from all three programs)
+    if (err instanceof AnchorError) {
+        const decoded = fromCode(err.program.toBase58(), err.error.errorCode.number);
+        return decoded.program === 'anchor'
+            ? { ...decoded, name: err.error.errorCode.code, userMessage: err.error.errorMessage }
+            : decoded;
+    }
+
+    const anchorError = logs.length > 0 ? AnchorError.parse(logs) : null;
+    if (anchorError) {
+        return decodeProgramError(anchorError);
+    }
+
+    // Raw "custom program error: 0x1770" from preflight / confirmation
+    const customMatch = message.match(/custom program error: (0x[0-9a-fA-F]+)/)
+        ?? logs.join('\n').match(/custom program error: (0x[0-9a-fA-F]+)/);
+    if (customMatch) {
+        return fromCode(findFailingProgram(logs), parseInt(customMatch[1], 16));
+    }
+
+    const instructionErrorMatch = message.match(/"Custom":\s*(\d+)/);
+    if (instructionErrorMatch) {
+        return fromCode(findFailingProgram(logs), Number(instructionErrorMatch[1]));
+    }
+
+    // Built-in runtime errors, e.g. {"InstructionError":[0,"InvalidAccountData"]}
+    const builtinMatch = message.match(/"InstructionError":\s*\[\s*(\d+)\s*,\s*"(\w+)"/);
+    if (builtinMatch) {
+        const [, index, variant] = builtinMatch;
+        const failing = getProgramName(findFailingProgram(logs));
+        return {
+            program: failing ?? 'system',
+            code: null,
+            name: variant,
+            userMessage: INSTRUCTION_ERROR_MESSAGES[variant]
+                ?? `Instruction ${Number(index) + 1} failed (${variant}).`,
+            detail: message,
+        };
+    }
+
+    const transactionErrorMatch = message.match(/"err":\s*"(\w+)"|(?:^|: )"?(\w+)"?$/);
+    const transactionError = transactionErrorMatch?.[1] ?? transactionErrorMatch?.[2];
+    if (transactionError && TRANSACTION_ERROR_MESSAGES[transactionError]) {
+        return {
+            program: 'system',
+            code: null,
+            name: transactionError,
+            userMessage: TRANSACTION_ERROR_MESSAGES[transactionError],
+            detail: message,
+        };
+    }
+
+    if (/user rejected|rejected the request|rejected/i.test(message)) {
+        return { program: 'wallet', code: null, name: 'UserRejected', userMessage: 'Transaction was cancelled in the wallet.' };
+    }
+
+    if (message.includes('already been processed')) {
+        return { program: 'system', code: null, name: 'AlreadyProcessed', userMessage: 'This transaction has already been processed.' };
+    }
+
+    if (/insufficient (funds|lamports)/i.test(message) || logs.some((l) => /insufficient lamports/i.test(l))) {
+        return { program: 'system', code: null, name: 'InsufficientFunds', userMessage: 'Not enough SOL to pay for this transaction.' };
+    }
+
+    if (/blockhash not found|block height exceeded/i.test(message)) {
+        return { program: 'network', code: null, name: 'BlockhashExpired', userMessage: 'The transaction expired before it was confirmed. Please try again.' };
+    }
+
+    if (/failed to fetch|network request failed|timed out/i.test(message)) {
+        return { program: 'network', code: null, name: 'NetworkError', userMessage: 'Could not reach the RPC endpoint. Check your connection.' };
+    }
+
+    // Serialized error objects stay in detail; they mean nothing to users
+    const isRawJson = /^\s*"|[{[]\s*"/.test(message);
+    return {
+        program: 'unknown',
+        code: null,
+        name: 'UnknownError',
+        userMessage: message && !isRawJson ? message : 'An unexpected error occurred',
+        detail: message || undefined,
+    };
+};
+
+// Short label for toasts, e.g. "simple_vault #6002 InsufficientShares"
+export const formatProgramError = (error: DecodedProgramError): string => {
+    return error.code !== null
+        ? `${error.program} #${error.code} ${error.name}`
+        : `${error.program}: ${error.name}`;
+};
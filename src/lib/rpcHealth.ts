@@ -0,0 +1,118 @@
+import type { RpcEndpoint } from '@/config/rpc';
+
+// An endpoint further behind the best one than this is treated as unhealthy
+export const MAX_SLOT_LAG = 50;
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// JSON-RPC "method not found" - some providers don't expose getHealth
+const METHOD_NOT_FOUND = -32601;
+
+export interface RpcHealth {
+    url: string;
+    healthy: boolean;
+    latencyMs: number | null;
+    slot: number | null;
+    // Slots behind the most advanced endpoint in the same check
+    slotLag: number | null;
+    error: string | null;
+    checkedAt: number;
+}
+
+class RpcRequestError extends Error {
+    constructor(message: string, public readonly code: number | null = null) {
+        super(message);
+        this.name = 'RpcRequestError';
+    }
+}
+
+// Plain fetch so a check never touches the shared Connection or its websocket
+async function rpcRequest<T>(url: string, method: string, params: unknown[] = []): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+            signal: controller.signal,
+        });
+        if (!response.ok) {
+            throw new RpcRequestError(`HTTP ${response.status}`);
+        }
+
+        const body = await response.json();
+        if (body.error) {
+            throw new RpcRequestError(body.error.message ?? 'RPC error', body.error.code ?? null);
+        }
+        return body.result as T;
+    } catch (err) {
+        if ((err as Error).name === 'AbortError') {
+            throw new RpcRequestError(`Timed out after ${REQUEST_TIMEOUT_MS}ms`);
+        }
+        throw err;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+async function checkEndpoint(endpoint: RpcEndpoint): Promise<RpcHealth> {
+    const result: RpcHealth = {
+        url: endpoint.http,
+        healthy: false,
+        latencyMs: null,
+        slot: null,
+        slotLag: null,
+        error: null,
+        checkedAt: Date.now(),
+    };
+
+    try {
+        const start = performance.now();
+        try {
+            await rpcRequest<string>(endpoint.http, 'getHealth');
+        } catch (err) {
+            if ((err as RpcRequestError).code !== METHOD_NOT_FOUND) throw err;
+        }
+        result.latencyMs = Math.round(performance.now() - start);
+
+        result.slot = await rpcRequest<number>(endpoint.http, 'getSlot', [{ commitment: 'confirmed' }]);
+        result.healthy = true;
+    } catch (err) {
+        result.error = (err as Error).message;
+    }
+
+    return result;
+}
+
+// Checks every endpoint in parallel; slot lag is relative to the best responder
+export async function checkEndpoints(endpoints: RpcEndpoint[]): Promise<RpcHealth[]> {
+    const results = await Promise.all(endpoints.map(checkEndpoint));
+
+    const slots = results.map((r) => r.slot).filter((slot): slot is number => slot !== null);
+    if (slots.length === 0) return results;
+
+    const bestSlot = Math.max(...slots);
+    return results.map((r) => {
+        if (r.slot === null) return r;
+        const slotLag = bestSlot - r.slot;
+        return slotLag > MAX_SLOT_LAG
+            ? { ...r, slotLag, healthy: false, error: `${slotLag} slots behind` }
+            : { ...r, slotLag };
+    });
+}
+
+// First healthy endpoint in configured order, or null when the active one should stay
+export function pickFailoverEndpoint(
+    endpoints: RpcEndpoint[],
+    results: RpcHealth[],
+    activeUrl: string | null
+): RpcEndpoint | null {
+    const health = new Map(results.map((r) => [r.url, r]));
+    if (activeUrl && health.get(activeUrl)?.healthy) return null;
+
+    return endpoints.find((endpoint) =>
+        endpoint.http !== activeUrl && health.get(endpoint.http)?.healthy
+    ) ?? null;
+}
@@ -0,0 +1,106 @@
+import { BN } from '@coral-xyz/anchor';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { unpackMint } from '@solana/spl-token';
+
+import { useNetworkStore } from '@/store/networkStore';
+
+// A mint's decimals are fixed at creation, so entries never go stale; the key
+// includes the network because localnet mints can reuse addresses
+const decimalsCache = new Map<string, number>();
+const pendingRequests = new Map<string, Promise<number>>();
+
+const cacheKey = (mint: PublicKey) =>
+    `${useNetworkStore.getState().currentNetwork ?? 'none'}:${mint.toBase58()}`;
+
+export const getCachedMintDecimals = (mint: PublicKey): number | undefined =>
+    decimalsCache.get(cacheKey(mint));
+
+// For decimals that arrive with other data, e.g. parsed token accounts
+export const rememberMintDecimals = (mint: PublicKey, decimals: number): void => {
+    decimalsCache.set(cacheKey(mint), decimals);
+};
+
+// Same as getMint, but the owning program (Token or Token-2022) comes from the
+// account itself, so either kind of mint takes a single request
+export const fetchMintDecimals = (connection: Connection, mint: PublicKey): Promise<number> => {
+    const key = cacheKey(mint);
+
+    const cached = decimalsCache.get(key);
+    if (cached !== undefined) return Promise.resolve(cached);
+
+    const pending = pendingRequests.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+        const info = await connection.getAccountInfo(mint, 'confirmed');
+        if (!info) throw new Error(`Mint ${mint.toBase58()} not found`);
+        return unpackMint(mint, info, info.owner).decimals;
+    })()
+        .then((decimals) => {
+            decimalsCache.set(key, decimals);
+            return decimals;
+        })
+        .finally(() => {
+            pendingRequests.delete(key);
+        });
+
+    pendingRequests.set(key, request);
+    return request;
+};
+
+// Warms the cache; mints that fail to load are logged and fetched again on use
+export const prefetchMintDecimals = async (connection: Connection, mints: PublicKey[]): Promise<void> => {
+    const results = await Promise.allSettled(mints.map((mint) => fetchMintDecimals(connection, mint)));
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+            console.warn('[tokenAmount] Failed to load decimals for mint:', mints[i].toBase58(), result.reason);
+        }
+    });
+};
+
+export type ParsedTokenAmount =
+    | { amount: BN; error: null }
+    | { amount: null; error: string };
+
+// "1.5" with 6 decimals -> 1500000, by string manipulation so no float rounding
+export const parseTokenAmount = (value: string, decimals: number): ParsedTokenAmount => {
+    const trimmed = value.trim();
+    if (!trimmed) {
+        return { amount: null, error: 'Enter an amount' };
+    }
+
+    const match = trimmed.match(/^(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) {
+        return { amount: null, error: 'Enter a plain decimal number' };
+    }
+
+    const [, whole = '', fraction = ''] = match;
+    if (fraction.length > decimals) {
+        return {
+            amount: null,
+            error: decimals === 0
+                ? 'Enter a whole number'
+                : `At most ${decimals} decimal places are supported`,
+        };
+    }
+
+    const amount = new BN((whole || '0') + fraction.padEnd(decimals, '0'));
+    if (amount.isZero()) {
+        return { amount: null, error: 'Amount must be greater than zero' };
+    }
+    return { amount, error: null };
+};
+
+// 1500000 with 6 decimals -> "1.5"; the whole part is grouped with commas
+export const formatTokenAmount = (amount: BN, decimals: number, maxFractionDigits = decimals): string => {
+    const digits = amount.abs().toString().padStart(decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits
+        .slice(digits.length - decimals)
+        .slice(0, maxFractionDigits)
+        .replace(/0+$/, '');
+
+    const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    const sign = amount.isNeg() ? '-' : '';
+    return fraction ? `${sign}${grouped}.${fraction}` : `${sign}${grouped}`;
+};
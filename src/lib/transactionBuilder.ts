@@ -0,0 +1,133 @@
+import {
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    TransactionInstruction,
+} from '@solana/web3.js';
+
+import { simulateInstructions, type SimulationResult } from '@/lib/transactionSimulation';
+import type { FeeEstimate, FeeTier } from '@/store/settingsStore';
+
+// Runtime maximum; used while simulating so the estimate isn't capped at the 200k default
+export const MAX_COMPUTE_UNITS = 1_400_000;
+
+// Headroom over simulated usage, since state can change before the transaction lands
+const COMPUTE_UNIT_MARGIN = 1.15;
+const FALLBACK_UNITS_PER_INSTRUCTION = 200_000;
+
+// getRecentPrioritizationFees accepts at most this many accounts
+const MAX_FEE_ACCOUNTS = 128;
+
+// Percentile of recent fees paid on the touched accounts
+export const FEE_TIER_PERCENTILES: Record<FeeTier, number | null> = {
+    none: null,
+    low: 25,
+    medium: 50,
+    high: 75,
+};
+
+export interface PreparedTransaction {
+    simulation: SimulationResult;
+    // Prepend these (e.g. via Anchor's .preInstructions()) before signing
+    computeBudgetInstructions: TransactionInstruction[];
+    // Upper bound of the priority fee in lamports is limit * price / 1e6
+    feeEstimate: FeeEstimate;
+}
+
+export const estimateComputeUnitLimit = (unitsConsumed: number | null, instructionCount: number): number => {
+    if (unitsConsumed === null || unitsConsumed === 0) {
+        return Math.min(MAX_COMPUTE_UNITS, FALLBACK_UNITS_PER_INSTRUCTION * instructionCount);
+    }
+    return Math.min(MAX_COMPUTE_UNITS, Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN));
+};
+
+const getWritableAccounts = (instructions: TransactionInstruction[]): PublicKey[] => {
+    const seen = new Map<string, PublicKey>();
+    instructions.forEach((ix) => {
+        ix.keys.forEach((key) => {
+            if (key.isWritable) seen.set(key.pubkey.toBase58(), key.pubkey);
+        });
+    });
+    return Array.from(seen.values()).slice(0, MAX_FEE_ACCOUNTS);
+};
+
+const percentile = (values: number[], p: number): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length));
+    return sorted[index];
+};
+
+// Micro-lamports per compute unit for the tier, from fees recently paid on these accounts
+export const getPriorityFee = async (
+    connection: Connection,
+    writableAccounts: PublicKey[],
+    tier: FeeTier
+): Promise<number> => {
+    const p = FEE_TIER_PERCENTILES[tier];
+    if (p === null) return 0;
+
+    try {
+        const recent = await connection.getRecentPrioritizationFees({
+            lockedWritableAccounts: writableAccounts,
+        });
+        return percentile(recent.map((fee) => fee.prioritizationFee), p);
+    } catch (err) {
+        // Some RPCs don't support the method; sending without a price still works
+        console.warn('[transactionBuilder] Could not fetch prioritization fees:', err);
+        return 0;
+    }
+};
+
+/**
+ * Shared pre-signing step for every program call: simulate, size the compute
+ * budget from the simulation and price it at the selected fee tier.
+ * Callers must check `simulation.success` before asking the wallet to sign.
+ */
+export const prepareTransaction = async (
+    connection: Connection,
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    feeTier: FeeTier
+): Promise<PreparedTransaction> => {
+    const simulation = await simulateInstructions(connection, payer, [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ...instructions,
+    ]);
+
+    const computeUnitLimit = estimateComputeUnitLimit(simulation.unitsConsumed, instructions.length);
+    const priorityFeeMicroLamports = simulation.success
+        ? await getPriorityFee(connection, getWritableAccounts(instructions), feeTier)
+        : 0;
+
+    const computeBudgetInstructions = [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+    ];
+    if (priorityFeeMicroLamports > 0) {
+        computeBudgetInstructions.push(
+            ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFeeMicroLamports })
+        );
+    }
+
+    const prepared: PreparedTransaction = {
+        simulation,
+        computeBudgetInstructions,
+        feeEstimate: {
+            computeUnitLimit,
+            priorityFeeMicroLamports,
+            estimatedPriorityFeeLamports: Math.ceil((computeUnitLimit * priorityFeeMicroLamports) / 1_000_000),
+            feeTier,
+            timestamp: Date.now(),
+        },
+    };
+
+    console.log('[transactionBuilder] Prepared transaction:', {
+        feeTier,
+        success: simulation.success,
+        unitsConsumed: simulation.unitsConsumed,
+        computeUnitLimit,
+        priorityFeeMicroLamports
+    });
+
+    return prepared;
+};
@@ -0,0 +1,180 @@
+import { BN, BorshCoder, type Idl } from '@coral-xyz/anchor';
+import {
+    Connection,
+    PublicKey,
+    type ConfirmedSignatureInfo,
+    type VersionedTransactionResponse,
+} from '@solana/web3.js';
+
+import SimpleVaultIDL from '@/idl/simple_vault.json';
+import UniqueLowIDL from '@/idl/unique_low.json';
+import TestTokenIDL from '@/idl/test_token.json';
+
+import { getProgramName, type ProgramName } from '@/lib/programErrors';
+
+// Signatures fetched per address; the merged list is cut to the same size
+export const HISTORY_PAGE_SIZE = 50;
+
+// Keep getTransactions batches small; public RPCs reject large ones
+const TRANSACTION_BATCH_SIZE = 25;
+
+type IdlInstruction = (typeof SimpleVaultIDL.instructions)[number]
+    | (typeof UniqueLowIDL.instructions)[number]
+    | (typeof TestTokenIDL.instructions)[number];
+
+interface ProgramDecoder {
+    coder: BorshCoder;
+    instructions: IdlInstruction[];
+}
+
+// Names stay as written in the IDL (snake_case); the coder doesn't need the program address
+const DECODERS: Record<ProgramName, ProgramDecoder> = {
+    simple_vault: { coder: new BorshCoder(SimpleVaultIDL as Idl), instructions: SimpleVaultIDL.instructions },
+    unique_low: { coder: new BorshCoder(UniqueLowIDL as Idl), instructions: UniqueLowIDL.instructions },
+    test_token: { coder: new BorshCoder(TestTokenIDL as Idl), instructions: TestTokenIDL.instructions },
+};
+
+// Identity NFT account of each instruction that involves one
+const NFT_ACCOUNTS: Record<string, string> = {
+    deposit: 'user_nft_mint',
+    withdraw: 'user_nft_mint',
+    mint_nft: 'mint',
+    request_cross_chain_mint: 'mint',
+};
+
+// Argument holding the amount moved (assets, shares or tokens, in base units)
+const AMOUNT_ARGS: Record<string, string> = {
+    deposit: 'amount',
+    withdraw: 'shares',
+    mint_tokens: 'amount',
+};
+
+export interface HistoryEntry {
+    // signature:instructionIndex, unique per decoded instruction
+    id: string;
+    signature: string;
+    slot: number;
+    blockTime: number | null;
+    success: boolean;
+    error: string | null;
+    program: ProgramName;
+    instruction: string;
+    args: Record<string, unknown>;
+    accounts: Record<string, PublicKey>;
+    amount: BN | null;
+    nftMint: PublicKey | null;
+    // Fee payer of the transaction
+    feePayer: PublicKey;
+}
+
+// "mint_tokens" -> "Mint Tokens"
+export const formatInstructionName = (name: string): string =>
+    name.split('_').map((part) => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
+
+/**
+ * Signatures touching any of the addresses, newest first, deduplicated
+ * and cut to `limit`.
+ */
+export const fetchSignatures = async (
+    connection: Connection,
+    addresses: PublicKey[],
+    limit: number = HISTORY_PAGE_SIZE
+): Promise<ConfirmedSignatureInfo[]> => {
+    const results = await Promise.all(
+        addresses.map((address) =>
+            connection.getSignaturesForAddress(address, { limit }, 'confirmed').catch((err) => {
+                console.warn('[transactionHistory] Failed to fetch signatures for', address.toBase58(), err);
+                return [] as ConfirmedSignatureInfo[];
+            })
+        )
+    );
+
+    const unique = new Map<string, ConfirmedSignatureInfo>();
+    results.flat().forEach((info) => unique.set(info.signature, info));
+
+    return Array.from(unique.values())
+        .sort((a, b) => b.slot - a.slot)
+        .slice(0, limit);
+};
+
+const decodeTransaction = (signature: string, tx: VersionedTransactionResponse): HistoryEntry[] => {
+    const { message } = tx.transaction;
+    const keys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+    const feePayer = keys.get(0);
+    if (!feePayer) {
+        console.warn('[transactionHistory] Skipping transaction without a fee payer:', signature);
+        return [];
+    }
+    const entries: HistoryEntry[] = [];
+
+    message.compiledInstructions.forEach((ix, index) => {
+        const programId = keys.get(ix.programIdIndex);
+        const program = getProgramName(programId);
+        if (!program) return;
+
+        const { coder, instructions } = DECODERS[program];
+        const decoded = coder.instruction.decode(Buffer.from(ix.data));
+        if (!decoded) return;
+
+        // Map positional account indexes onto the IDL account names
+        const idlAccounts = instructions.find((i) => i.name === decoded.name)?.accounts ?? [];
+        const accounts: Record<string, PublicKey> = {};
+        idlAccounts.forEach((account, i) => {
+            const key = keys.get(ix.accountKeyIndexes[i]);
+            if (key) accounts[account.name] = key;
+        });
+
+        const args = decoded.data as Record<string, unknown>;
+        const amountArg = AMOUNT_ARGS[decoded.name];
+        const nftAccount = NFT_ACCOUNTS[decoded.name];
+
+        entries.push({
+            id: `${signature}:${index}`,
+            signature,
+            slot: tx.slot,
+            blockTime: tx.blockTime ?? null,
+            success: !tx.meta?.err,
+            error: tx.meta?.err ? JSON.stringify(tx.meta.err) : null,
+            program,
+            instruction: decoded.name,
+            args,
+            accounts,
+            amount: amountArg && BN.isBN(args[amountArg]) ? (args[amountArg] as BN) : null,
+            nftMint: nftAccount ? accounts[nftAccount] ?? null : null,
+            feePayer,
+        });
+    });
+
+    return entries;
+};
+
+/**
+ * Fetch and decode the instructions of our three programs in the given
+ * transactions. Instructions of other programs (compute budget, ATA) are skipped.
+ */
+export const fetchHistoryEntries = async (
+    connection: Connection,
+    signatures: string[]
+): Promise<HistoryEntry[]> => {
+    const entries: HistoryEntry[] = [];
+
+    for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+        const batch = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+        const transactions = await connection.getTransactions(batch, {
+            commitment: 'confirmed',
+            maxSupportedTransactionVersion: 0,
+        });
+
+        transactions.forEach((tx, j) => {
+            if (!tx) return;
+            try {
+                entries.push(...decodeTransaction(batch[j], tx));
+            } catch (err) {
+                // An IDL mismatch on one transaction shouldn't hide the rest
+                console.warn('[transactionHistory] Failed to decode transaction:', batch[j], err);
+            }
+        });
+    }
+
+    return entries;
+};
@@ -0,0 +1,57 @@
+import {
+    Connection,
+    PublicKey,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction,
+} from '@solana/web3.js';
+
+import { decodeProgramError, type DecodedProgramError } from '@/lib/programErrors';
+
+export interface SimulationResult {
+    success: boolean;
+    logs: string[];
+    unitsConsumed: number | null;
+    error: DecodedProgramError | null;
+}
+
+/**
+ * Simulate instructions as an unsigned v0 transaction. Signature checks are
+ * skipped and the blockhash is replaced by the RPC, so no wallet prompt is needed.
+ */
+export const simulateInstructions = async (
+    connection: Connection,
+    payer: PublicKey,
+    instructions: TransactionInstruction[]
+): Promise<SimulationResult> => {
+    const { blockhash } = await connection.getLatestBlockhash('processed');
+    const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: blockhash,
+        instructions,
+    }).compileToV0Message();
+
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: 'processed',
+    });
+
+    const logs = value.logs ?? [];
+    const result: SimulationResult = {
+        success: !value.err,
+        logs,
+        unitsConsumed: value.unitsConsumed ?? null,
+        // Same decoder as submitted transactions; it reads the InstructionError and the logs
+        error: value.err ? decodeProgramError({ err: value.err, logs }) : null,
+    };
+
+    console.log('[simulateInstructions] Simulation result:', {
+        success: result.success,
+        unitsConsumed: result.unitsConsumed,
+        error: result.error?.name,
+        logCount: logs.length
+    });
+
+    return result;
+};
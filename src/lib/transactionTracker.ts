@@ -0,0 +1,272 @@
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    Transaction,
+} from '@solana/web3.js';
+
+import { useNetworkStore } from '@/store/networkStore';
+import { useTransactionStore, type TrackedTransaction } from '@/store/transactionStore';
+
+// Any wallet that can sign legacy transactions (AppKit provider, AnchorWallet)
+export interface TransactionSigner {
+    publicKey: PublicKey;
+    signTransaction: <T extends Transaction>(transaction: T) => Promise<T>;
+}
+
+export interface SendTrackedOptions {
+    label: string;
+    // Extra signers, e.g. a freshly generated mint keypair
+    signers?: Keypair[];
+}
+
+const encodeBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64');
+const decodeBase64 = (value: string): Buffer => Buffer.from(value, 'base64');
+
+/**
+ * Sign and send a transaction, then hand it to the tracker. The blockhash and
+ * its lastValidBlockHeight are recorded with the signed bytes so the tracker
+ * can rebroadcast until the transaction lands or can no longer land.
+ */
+export const sendTrackedTransaction = async (
+    connection: Connection,
+    wallet: TransactionSigner,
+    transaction: Transaction,
+    { label, signers = [] }: SendTrackedOptions
+): Promise<string> => {
+    // Never sign for a cluster the RPC hasn't proven it serves
+    const { genesisStatus, error } = useNetworkStore.getState();
+    if (genesisStatus !== 'verified') {
+        throw new Error(genesisStatus === 'mismatch' && error
+            ? error
+            : 'The RPC cluster has not been verified yet, try again in a moment');
+    }
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = wallet.publicKey;
+    if (signers.length > 0) {
+        transaction.partialSign(...signers);
+    }
+
+    const signed = await wallet.signTransaction(transaction);
+    const raw = signed.serialize();
+
+    // The tracker owns retries, so the RPC shouldn't queue its own
+    const signature = await connection.sendRawTransaction(raw, {
+        preflightCommitment: 'confirmed',
+        maxRetries: 0,
+    });
+
+    useTransactionStore.getState().addTransaction({
+        signature,
+        label,
+        network: useNetworkStore.getState().currentNetwork,
+        blockhash,
+        lastValidBlockHeight,
+        serialized: encodeBase64(raw),
+    });
+
+    return signature;
+};
+
+/**
+ * One tracker tick for the given network: settle transactions that landed or
+ * failed, expire those whose blockhash is no longer valid and rebroadcast the rest.
+ */
+export const pollPendingTransactions = async (connection: Connection, network: string | null): Promise<void> => {
+    const store = useTransactionStore.getState();
+    const pending = store.getPendingTransactions(network);
+    if (pending.length === 0) return;
+
+    // Read the height before the statuses: a transaction missing at a height
+    // already past its lastValidBlockHeight can never land
+    const blockHeight = await connection.getBlockHeight('confirmed');
+    const { value: statuses } = await connection.getSignatureStatuses(
+        pending.map((tx) => tx.signature),
+        { searchTransactionHistory: true }
+    );
+
+    await Promise.all(pending.map(async (tx, i) => {
+        const status = statuses[i];
+
+        if (status?.err) {
+            store.updateTransaction(tx.signature, {
+                status: 'failed',
+                slot: status.slot,
+                error: JSON.stringify(status.err),
+            });
+            return;
+        }
+
+        if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+            store.updateTransaction(tx.signature, {
+                status: status.confirmationStatus,
+                slot: status.slot,
+            });
+            return;
+        }
+
+        // Seen but only processed; wait for it to confirm
+        if (status) return;
+
+        if (blockHeight > tx.lastValidBlockHeight) {
+            store.updateTransaction(tx.signature, {
+                status: 'expired',
+                error: `Block height exceeded: blockhash ${tx.blockhash} expired at ${tx.lastValidBlockHeight}`,
+            });
+            return;
+        }
+
+        try {
+            await connection.sendRawTransaction(decodeBase64(tx.serialized), {
+                skipPreflight: true,
+                maxRetries: 0,
+            });
+            store.markResent(tx.signature);
+        } catch (err) {
+            // Rebroadcast is best effort; the status check decides the outcome
+            console.warn('[transactionTracker] Rebroadcast failed:', tx.signature, err);
+        }
+    }));
+};
+
+// A blockhash is valid for ~150 blocks (about a minute); past this the wait
+// gives up even if the RPC never reports a block height again
+const CONFIRMATION_TIMEOUT_MS = 3 * 60 * 1000;
+const BLOCK_HEIGHT_CHECK_MS = 5000;
+
+type SignatureLookup = 'settled' | 'processed' | 'missing';
+
+// Look one signature up and settle its entry the way a tracker tick would
+const lookupSignature = async (connection: Connection, signature: string): Promise<SignatureLookup> => {
+    const { value: [status] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+    if (!status) return 'missing';
+
+    const store = useTransactionStore.getState();
+    if (status.err) {
+        store.updateTransaction(signature, {
+            status: 'failed',
+            slot: status.slot,
+            error: JSON.stringify(status.err),
+        });
+        return 'settled';
+    }
+    if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') {
+        store.updateTransaction(signature, {
+            status: status.confirmationStatus,
+            slot: status.slot,
+        });
+        return 'settled';
+    }
+    return 'processed';
+};
+
+/**
+ * Resolves once the tracker moves the transaction out of 'pending'. Rejects
+ * when the blockhash has expired, the wait outlives CONFIRMATION_TIMEOUT_MS or
+ * the app switches away from the transaction's network. The first two look the
+ * signature up before giving up, so a transaction that landed between tracker
+ * ticks still resolves; otherwise the entry is left for the tracker to settle.
+ */
+export const waitForTransaction = (signature: string): Promise<TrackedTransaction | null> => {
+    return new Promise((resolve, reject) => {
+        const settled = (tx: TrackedTransaction | undefined) => !tx || tx.status !== 'pending';
+
+        const current = useTransactionStore.getState().transactions[signature];
+        if (settled(current)) {
+            resolve(current ?? null);
+            return;
+        }
+
+        const { network, lastValidBlockHeight, blockhash, createdAt } = current;
+        let done = false;
+
+        const finish = (settle: () => void) => {
+            if (done) return;
+            done = true;
+            unsubscribeTransactions();
+            unsubscribeNetwork();
+            clearTimeout(timeout);
+            clearInterval(heightCheck);
+            settle();
+        };
+
+        const unsubscribeTransactions = useTransactionStore.subscribe((state) => {
+            const tx = state.transactions[signature];
+            if (settled(tx)) finish(() => resolve(tx ?? null));
+        });
+
+        // The tracker only polls the current network, so this one would never settle
+        const unsubscribeNetwork = useNetworkStore.subscribe((state) => {
+            if (state.currentNetwork !== network) {
+                finish(() => reject(new Error(
+                    `Network changed to ${state.currentNetwork ?? 'none'} before transaction ${signature} confirmed`
+                )));
+            }
+        });
+
+        let timedOut = false;
+        const timeoutError = new Error(`Confirmation timed out for transaction ${signature}`);
+
+        const timeout = setTimeout(async () => {
+            timedOut = true;
+            const { connection } = useNetworkStore.getState();
+            if (!connection) {
+                finish(() => reject(timeoutError));
+                return;
+            }
+            try {
+                // Seen but not yet confirmed: the height check decides from here
+                if (await lookupSignature(connection, signature) === 'missing') {
+                    finish(() => reject(timeoutError));
+                }
+            } catch (err) {
+                console.warn('[transactionTracker] Signature lookup failed:', signature, err);
+                finish(() => reject(timeoutError));
+            }
+        }, Math.max(0, createdAt + CONFIRMATION_TIMEOUT_MS - Date.now()));
+
+        // Don't rely on the tracker alone to notice expiry
+        const heightCheck = setInterval(async () => {
+            const { connection } = useNetworkStore.getState();
+            if (!connection || done) return;
+            try {
+                const blockHeight = await connection.getBlockHeight('confirmed');
+                if (blockHeight <= lastValidBlockHeight) return;
+
+                // It may have landed since the last tracker tick
+                if (await lookupSignature(connection, signature) !== 'missing') return;
+
+                finish(() => reject(new Error(
+                    `Block height exceeded: blockhash ${blockhash} expired at ${lastValidBlockHeight}`
+                )));
+            } catch (err) {
+                console.warn('[transactionTracker] Block height check failed:', err);
+                // Past the timeout an unreachable RPC ends the wait
+                if (timedOut) finish(() => reject(timeoutError));
+            }
+        }, BLOCK_HEIGHT_CHECK_MS);
+    });
+};
+
+/**
+ * Wait for a tracked transaction to confirm. Throws with messages that
+ * decodeProgramError understands when it failed on-chain or expired.
+ */
+export const confirmTrackedTransaction = async (signature: string): Promise<TrackedTransaction> => {
+    const tx = await waitForTransaction(signature);
+
+    if (!tx) {
+        throw new Error(`Transaction ${signature} is no longer tracked`);
+    }
+    if (tx.status === 'failed') {
+        throw new Error(`Transaction failed during confirmation: ${tx.error}`);
+    }
+    if (tx.status === 'expired') {
+        throw new Error(tx.error ?? 'Block height exceeded');
+    }
+
+    return tx;
+};
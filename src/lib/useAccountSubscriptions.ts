@@ -0,0 +1,226 @@
+import { useEffect, useMemo } from 'react';
+import { useAppKitAccount } from '@reown/appkit/react';
+import { BN } from '@coral-xyz/anchor';
+import { Connection, PublicKey, type AccountInfo } from '@solana/web3.js';
+import { unpackAccount } from '@solana/spl-token';
+
+// Import stores
+import { useNetworkStore, selectConnection } from '@/store/networkStore';
+import {
+    useVaultStore,
+    selectVaultProgram,
+    selectSelectedVaultKey,
+    type UserPosition,
+    type VaultData,
+} from '@/store/vaultStore';
+import {
+    useUniqueIdStore,
+    selectUniqueIdProgram,
+    selectUserNFTs,
+    type Collection,
+} from '@/store/uniqueIdStore';
+import { useTokenStore, selectUserTokens } from '@/store/tokenStore';
+
+import { CONFIG, VaultUtils } from '@/config/programs';
+import { fetchMintDecimals } from '@/lib/tokenAmount';
+import { getPositionValue, toUiAmount } from '@/lib/vaultMath';
+
+type AccountHandler = (account: PublicKey, info: AccountInfo<Buffer>) => void | Promise<void>;
+
+// A closed account is reported with no lamports and no data
+const isClosed = (info: AccountInfo<Buffer>) => info.lamports === 0 || info.data.length === 0;
+
+/**
+ * Register an onAccountChange listener per account and route every update to
+ * the handler. Returns a cleanup function that removes all of them.
+ */
+const watchAccounts = (
+    connection: Connection,
+    accounts: PublicKey[],
+    label: string,
+    onChange: AccountHandler
+): (() => void) => {
+    console.log(`[useAccountSubscriptions] Subscribing to ${label}:`, accounts.map((a) => a.toBase58()));
+
+    const subscriptionIds = accounts.map((account) =>
+        connection.onAccountChange(account, (info) => {
+            Promise.resolve(onChange(account, info)).catch((err) => {
+                console.warn(`[useAccountSubscriptions] Failed to apply ${label} update:`, account.toBase58(), err);
+            });
+        }, 'confirmed')
+    );
+
+    return () => {
+        console.log(`[useAccountSubscriptions] Unsubscribing from ${label}`);
+        subscriptionIds.forEach((id) => {
+            connection.removeAccountChangeListener(id).catch((err) => {
+                console.warn(`[useAccountSubscriptions] Failed to remove ${label} listener ${id}:`, err);
+            });
+        });
+    };
+};
+
+// Share -> asset value against the selected vault as currently stored;
+// null until both the vault and its cash balance are loaded
+const valueShares = (shares: BN): number | null => {
+    const { vault, vaultBalance } = useVaultStore.getState();
+    if (!vault || !vaultBalance) return null;
+    if (vault.totalShares.isZero()) return 0;
+    return toUiAmount(getPositionValue(shares, vault, vaultBalance.amount), vaultBalance.decimals);
+};
+
+// Vault and cash updates change what every share is worth
+const revaluePositions = () => {
+    const { allUserPositions, upsertUserPosition } = useVaultStore.getState();
+    allUserPositions.forEach((position) => {
+        const depositAmount = valueShares(position.shares);
+        if (depositAmount === null) return;
+        upsertUserPosition(position.nftMint, { ...position, depositAmount });
+    });
+};
+
+/**
+ * Centralized account subscription hook
+ * This should only be used ONCE in your app (next to useProgramEvents).
+ * Watches the selected vault, its token account, the wallet's UserInfo PDAs,
+ * the collection and the wallet's token accounts, and decodes each change
+ * into the stores. Subscriptions follow the wallet, network and selection.
+ */
+export const useAccountSubscriptions = () => {
+    const { address } = useAppKitAccount();
+    const connection = useNetworkStore(selectConnection);
+    const vaultProgram = useVaultStore(selectVaultProgram);
+    const selectedVaultKey = useVaultStore(selectSelectedVaultKey);
+    const uniqueIdProgram = useUniqueIdStore(selectUniqueIdProgram);
+    const userNFTs = useUniqueIdStore(selectUserNFTs);
+    const userTokens = useTokenStore(selectUserTokens);
+
+    // Account data updates replace these arrays, so key the effects on addresses only
+    const nftMintsKey = useMemo(() => userNFTs.map((nft) => nft.mint.toBase58()).join(','), [userNFTs]);
+    const tokenAccountsKey = useMemo(() => userTokens.map((t) => t.account.toBase58()).join(','), [userTokens]);
+
+    // Selected vault PDA and its token account (the vault's cash)
+    useEffect(() => {
+        if (!connection || !vaultProgram || !selectedVaultKey) return;
+
+        const selected = useVaultStore.getState().vaults[selectedVaultKey];
+        if (!selected) return;
+
+        const vaultTokenAccount = VaultUtils.getVaultTokenAccount(selected.assetMint, selected.owner, selected.version);
+
+        const stopVault = watchAccounts(connection, [selected.address], 'vault', (_, info) => {
+            if (isClosed(info)) {
+                console.log('[useAccountSubscriptions] Vault closed:', selectedVaultKey);
+                useVaultStore.getState().removeVault(selectedVaultKey);
+                return;
+            }
+
+            const data = vaultProgram.coder.accounts.decode<VaultData>('vault', info.data);
+            useVaultStore.getState().updateVaultData(selectedVaultKey, data);
+            revaluePositions();
+        });
+
+        const stopBalance = watchAccounts(connection, [vaultTokenAccount], 'vault token account', async (account, info) => {
+            if (isClosed(info)) return;
+
+            const { amount } = unpackAccount(account, info, info.owner);
+            const decimals = useVaultStore.getState().vaultBalance?.decimals
+                ?? await fetchMintDecimals(connection, selected.assetMint);
+
+            // The selection may have moved on while decimals loaded
+            if (useVaultStore.getState().selectedVaultKey !== selectedVaultKey) return;
+
+            useVaultStore.getState().setVaultBalance({ amount: new BN(amount.toString()), decimals });
+            revaluePositions();
+        });
+
+        return () => {
+            stopVault();
+            stopBalance();
+        };
+    }, [connection, vaultProgram, selectedVaultKey]);
+
+    // One UserInfo PDA per identity NFT; PDAs that don't exist yet report their creation
+    useEffect(() => {
+        if (!connection || !vaultProgram || !selectedVaultKey || !address || !nftMintsKey) return;
+
+        const selected = useVaultStore.getState().vaults[selectedVaultKey];
+        if (!selected) return;
+
+        const user = new PublicKey(address);
+        const nftByUserInfo = new Map<string, PublicKey>();
+        nftMintsKey.split(',').forEach((mint) => {
+            const nftMint = new PublicKey(mint);
+            const { userInfoPda } = VaultUtils.getDerivedAccountsForUser(user, nftMint, selected);
+            nftByUserInfo.set(userInfoPda.toBase58(), nftMint);
+        });
+
+        return watchAccounts(
+            connection,
+            [...nftByUserInfo.keys()].map((key) => new PublicKey(key)),
+            'user info',
+            (account, info) => {
+                const nftMint = nftByUserInfo.get(account.toBase58());
+                if (!nftMint) return;
+
+                if (isClosed(info)) {
+                    useVaultStore.getState().upsertUserPosition(nftMint, null);
+                    return;
+                }
+
+                const userInfo = vaultProgram.coder.accounts.decode('userInfo', info.data);
+                // Without a vault value keep the last known one; the next vault or cash update revalues it
+                const previous = useVaultStore.getState().allUserPositions.find((p) => p.nftMint.equals(nftMint));
+                const position: UserPosition = {
+                    user,
+                    nftMint,
+                    depositAmount: valueShares(userInfo.shares) ?? previous?.depositAmount ?? 0,
+                    shares: userInfo.shares,
+                    shareAmount: Number(userInfo.shares),
+                    timestamp: Number(userInfo.lastUpdate) * 1000,
+                };
+                useVaultStore.getState().upsertUserPosition(nftMint, position);
+            }
+        );
+    }, [connection, vaultProgram, selectedVaultKey, address, nftMintsKey]);
+
+    // Collection PDA: supply and the uniqueId/tokenId/mint tables
+    useEffect(() => {
+        if (!connection || !uniqueIdProgram) return;
+
+        return watchAccounts(connection, [CONFIG.COLLECTION_PDA], 'collection', (_, info) => {
+            const { setCollection } = useUniqueIdStore.getState();
+            if (isClosed(info)) {
+                setCollection(null);
+                return;
+            }
+            setCollection(uniqueIdProgram.coder.accounts.decode<Collection>('collection', info.data));
+        });
+    }, [connection, uniqueIdProgram]);
+
+    // The wallet's token accounts; new accounts are picked up by the token loader
+    useEffect(() => {
+        if (!connection || !address || !tokenAccountsKey) return;
+
+        const accounts = tokenAccountsKey.split(',').map((key) => new PublicKey(key));
+
+        return watchAccounts(connection, accounts, 'token accounts', (account, info) => {
+            const { userTokens: tokens, updateUserTokenAccount } = useTokenStore.getState();
+            const token = tokens.find((t) => t.account.equals(account));
+            if (!token) return;
+
+            if (isClosed(info)) {
+                updateUserTokenAccount(account, null);
+                return;
+            }
+
+            const { amount, isFrozen } = unpackAccount(account, info, info.owner);
+            const exact = new BN(amount.toString());
+            updateUserTokenAccount(account, {
+                amount: exact,
+                balance: toUiAmount(exact, token.decimals),
+                isFrozen,
+            });
+        });
+    }, [connection, address, tokenAccountsKey]);
+};
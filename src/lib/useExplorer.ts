@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { PublicKey } from '@solana/web3.js';
+
+import { useNetworkStore, selectCurrentNetwork } from '@/store/networkStore';
+import { useSettingsStore, selectExplorer } from '@/store/settingsStore';
+import { EXPLORER_LABELS, getExplorerUrl, type ExplorerLinkType, type ExplorerName } from '@/lib/explorer';
+
+export interface UseExplorerReturn {
+    explorer: ExplorerName;
+    explorerLabel: string;
+    getUrl: (type: ExplorerLinkType, value: string | PublicKey) => string;
+}
+
+// Explorer links for the preferred explorer; re-renders when the network or preference changes
+export const useExplorer = (): UseExplorerReturn => {
+    const explorer = useSettingsStore(selectExplorer);
+    const currentNetwork = useNetworkStore(selectCurrentNetwork);
+
+    const getUrl = useCallback(
+        (type: ExplorerLinkType, value: string | PublicKey) =>
+            getExplorerUrl(type, value, { explorer, network: currentNetwork }),
+        [explorer, currentNetwork]
+    );
+
+    return { explorer, explorerLabel: EXPLORER_LABELS[explorer], getUrl };
+};
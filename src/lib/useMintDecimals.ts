@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+
+import { useNetworkStore } from '@/store/networkStore';
+import { fetchMintDecimals, getCachedMintDecimals } from '@/lib/tokenAmount';
+
+// Decimals of a mint on the current network; null while loading or unknown
+export const useMintDecimals = (mint: PublicKey | null | undefined): number | null => {
+    const connection = useNetworkStore((state) => state.connection);
+    const mintKey = mint?.toBase58() ?? null;
+    const [loaded, setLoaded] = useState<{ mintKey: string; decimals: number } | null>(null);
+
+    useEffect(() => {
+        if (!connection || !mintKey) return;
+
+        let cancelled = false;
+        fetchMintDecimals(connection, new PublicKey(mintKey))
+            .then((decimals) => {
+                if (!cancelled) setLoaded({ mintKey, decimals });
+            })
+            .catch((err) => {
+                console.warn('[useMintDecimals] Failed to load decimals:', mintKey, err);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [connection, mintKey]);
+
+    if (!mintKey) return null;
+    const cached = getCachedMintDecimals(new PublicKey(mintKey));
+    if (cached !== undefined) return cached;
+    return loaded?.mintKey === mintKey ? loaded.decimals : null;
+};
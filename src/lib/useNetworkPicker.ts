@@ -0,0 +1,38 @@
+import { useAppKitNetwork } from '@reown/appkit/react'
+import type { AppKitNetwork } from '@reown/appkit/networks'
+
+import { networks, solanaClusters, SOLANA_NETWORKS } from '@/config'
+import { DEPLOYMENTS, type ClusterName } from '@/config/deployments'
+
+export interface NetworkOption {
+  network: AppKitNetwork
+  // null for EVM networks
+  cluster: ClusterName | null
+  // Solana clusters only: whether our programs are configured there
+  hasDeployment: boolean
+  isActive: boolean
+}
+
+export function useNetworkPicker() {
+  const { caipNetwork, switchNetwork } = useAppKitNetwork()
+
+  const options: NetworkOption[] = networks.map((network) => {
+    const cluster = solanaClusters.find((c) => SOLANA_NETWORKS[c] === network) ?? null
+    return {
+      network,
+      cluster,
+      hasDeployment: cluster !== null && !!DEPLOYMENTS[cluster],
+      isActive: caipNetwork?.id === network.id,
+    }
+  })
+
+  const switchTo = async (network: AppKitNetwork) => {
+    try {
+      await switchNetwork(network)
+    } catch (error) {
+      console.error('❌ Failed to switch network:', error)
+    }
+  }
+
+  return { options, activeNetwork: caipNetwork ?? null, switchTo }
+}
@@ -0,0 +1,108 @@
+import { useEffect, useRef } from 'react';
+import type { Program, Idl } from '@coral-xyz/anchor';
+
+// Import stores
+import { useVaultStore } from '@/store/vaultStore';
+import { useUniqueIdStore } from '@/store/uniqueIdStore';
+import {
+    useEventStore,
+    MAX_EVENTS_PER_PROGRAM,
+    type EventProgram,
+    type ProgramEvent,
+    type ProgramEventName,
+} from '@/store/eventStore';
+
+/**
+ * Register an Anchor log listener for every event declared in the program IDL
+ * and push decoded events into the event store. Returns a cleanup function.
+ */
+const listenToProgram = <T extends Idl>(program: Program<T>, source: EventProgram): (() => void) => {
+    const eventNames = (program.idl.events ?? []).map((e) => e.name as ProgramEventName);
+    const { addEvent, setListening } = useEventStore.getState();
+
+    console.log(`[useProgramEvents] Subscribing to ${source} events:`, eventNames);
+
+    // Anchor delivers a transaction's events in log order, so counting per
+    // signature gives each event its index; a re-registered listener starts
+    // over and reproduces the same ids, which the store then dedupes
+    const eventCounts = new Map<string, number>();
+    const nextLogIndex = (signature: string) => {
+        const index = eventCounts.get(signature) ?? 0;
+        eventCounts.set(signature, index + 1);
+        if (eventCounts.size > MAX_EVENTS_PER_PROGRAM) {
+            eventCounts.delete(eventCounts.keys().next().value as string);
+        }
+        return index;
+    };
+
+    const listenerIds = eventNames.map((name) =>
+        program.addEventListener(name, (event, slot, signature) => {
+            addEvent({
+                program: source,
+                name,
+                data: event as Record<string, unknown>,
+                slot,
+                signature,
+                logIndex: nextLogIndex(signature),
+            });
+        }, 'confirmed')
+    );
+
+    setListening(source, true);
+
+    return () => {
+        console.log(`[useProgramEvents] Unsubscribing from ${source} events`);
+        listenerIds.forEach((id) => {
+            program.removeEventListener(id).catch((err) => {
+                console.warn(`[useProgramEvents] Failed to remove ${source} listener ${id}:`, err);
+            });
+        });
+        useEventStore.getState().setListening(source, false);
+    };
+};
+
+/**
+ * Centralized program event subscription hook
+ * This should only be used ONCE in your app (next to useNetworkSync)
+ * so each program has a single websocket log subscription
+ */
+export const useProgramEvents = () => {
+    const vaultProgram = useVaultStore((state) => state.program);
+    const uniqueIdProgram = useUniqueIdStore((state) => state.program);
+
+    // Listeners follow the Program instances, which the stores rebuild on network/wallet change
+    useEffect(() => {
+        if (!vaultProgram) return;
+        return listenToProgram(vaultProgram, 'simple_vault');
+    }, [vaultProgram]);
+
+    useEffect(() => {
+        if (!uniqueIdProgram) return;
+        return listenToProgram(uniqueIdProgram, 'unique_low');
+    }, [uniqueIdProgram]);
+};
+
+/**
+ * Run a handler whenever an event with the given name is received.
+ * The handler does not need to be memoized.
+ */
+export const useProgramEvent = (
+    name: ProgramEventName,
+    handler: (event: ProgramEvent) => void
+) => {
+    const handlerRef = useRef(handler);
+
+    useEffect(() => {
+        handlerRef.current = handler;
+    }, [handler]);
+
+    useEffect(() => {
+        const unsubscribe = useEventStore.subscribe((state, prevState) => {
+            const event = state.lastEvent;
+            if (event && event !== prevState.lastEvent && event.name === name) {
+                handlerRef.current(event);
+            }
+        });
+        return unsubscribe;
+    }, [name]);
+};
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+
+import { useNetworkStore } from '@/store/networkStore';
+import { checkEndpoints, pickFailoverEndpoint } from '@/lib/rpcHealth';
+
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+
+/**
+ * Centralized RPC health check hook
+ * This should only be used ONCE in your app (next to useNetworkSync).
+ * Checks every endpoint of the current cluster and fails over to the first
+ * healthy backup when the active endpoint is down or lagging.
+ */
+export const useRpcHealth = () => {
+    const currentNetwork = useNetworkStore((state) => state.currentNetwork);
+    const isSolanaNetwork = useNetworkStore((state) => state.isSolanaNetwork);
+    const rpcEndpoints = useNetworkStore((state) => state.rpcEndpoints);
+
+    useEffect(() => {
+        if (!currentNetwork || !isSolanaNetwork) return;
+
+        let cancelled = false;
+        let checking = false;
+
+        const tick = async () => {
+            if (checking || cancelled) return;
+            checking = true;
+            try {
+                const { getRpcEndpoints, setRpcHealth } = useNetworkStore.getState();
+                const endpoints = getRpcEndpoints();
+                const results = await checkEndpoints(endpoints);
+                if (cancelled) return;
+
+                setRpcHealth(results);
+
+                const { activeRpcEndpoint, switchRpcEndpoint } = useNetworkStore.getState();
+                const failover = pickFailoverEndpoint(endpoints, results, activeRpcEndpoint?.http ?? null);
+                if (failover) {
+                    console.warn('[useRpcHealth] Active RPC endpoint unhealthy, failing over:', {
+                        from: activeRpcEndpoint?.http,
+                        to: failover.http
+                    });
+                    switchRpcEndpoint(failover);
+                }
+            } catch (err) {
+                console.warn('[useRpcHealth] Health check failed:', err);
+            } finally {
+                checking = false;
+            }
+        };
+
+        tick();
+        const interval = setInterval(tick, HEALTH_CHECK_INTERVAL_MS);
+
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [currentNetwork, isSolanaNetwork, rpcEndpoints]);
+};
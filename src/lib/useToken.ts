@@ -2,12 +2,18 @@ import { useEffect, useCallback, useRef } from 'react';
 import { useAppKitAccount, useAppKitProvider } from '@reown/appkit/react';
 import { Program, AnchorProvider, BN } from '@coral-xyz/anchor';
 import {
+    Keypair,
     PublicKey,
     Commitment,
+    Transaction,
+    TransactionInstruction,
 } from '@solana/web3.js';
 import {
     TOKEN_PROGRAM_ID,
+    TOKEN_2022_PROGRAM_ID,
     getAssociatedTokenAddressSync,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createTransferCheckedInstruction,
     getAccount,
     TokenAccountNotFoundError,
     TokenInvalidAccountOwnerError,
@@ -19,10 +25,22 @@ import IDL from '@/idl/test_token.json';
 
 // Import stores
 import { useNetworkStore } from '@/store/networkStore';
+import { useSettingsStore, selectFeeTier } from '@/store/settingsStore';
 import { useTokenStore, type UserToken } from '@/store/tokenStore';
+import { useVaultStore } from '@/store/vaultStore';
 
 // Import new config structure
-import { CONFIG } from '@/config/programs';
+import { CONFIG, withProgramAddress } from '@/config/programs';
+import { decodeProgramError, type DecodedProgramError } from '@/lib/programErrors';
+import { prepareTransaction } from '@/lib/transactionBuilder';
+import { sendTrackedTransaction, confirmTrackedTransaction } from '@/lib/transactionTracker';
+import { fetchMintDecimals, parseTokenAmount, prefetchMintDecimals, rememberMintDecimals } from '@/lib/tokenAmount';
+import { BATCH_MINT_ROWS_PER_TRANSACTION, type BatchMintRow, type BatchMintResult } from '@/lib/batchMint';
+
+export interface MintSupply {
+    amount: BN;
+    decimals: number;
+}
 
 export interface UseTokenReturn {
     // Store state (read-only)
@@ -31,6 +49,7 @@ export interface UseTokenReturn {
     mintAuthPda: PublicKey | null;
     loading: boolean;
     error: string | null;
+    txError: DecodedProgramError | null;
 
     // Network state (read-only)
     connection: any | null;
@@ -43,13 +62,48 @@ export interface UseTokenReturn {
     walletAddress: string | undefined;
 
     // Actions only (no direct data fetching in components)
-    mintTokens: (amount: BN, mintAddress?: PublicKey) => Promise<string | null>;
+    mintTokens: (amount: BN, mintAddress?: PublicKey, recipient?: PublicKey) => Promise<string | null>;
+    batchMintTokens: (mintAddress: PublicKey, rows: BatchMintRow[]) => Promise<BatchMintResult[]>;
+    initializeMint: () => Promise<PublicKey | null>;
     getUserBalance: (mintAddress?: PublicKey) => Promise<number>;
+    getMintSupply: (mintAddress: PublicKey) => Promise<MintSupply | null>;
 
     // Store actions
-    refreshAllData: () => void;
+    refreshAllData: () => Promise<void>;
 }
 
+// Mints that can be deposited: the configured vault asset plus every discovered vault's asset
+const getVaultAssetMints = (): Set<string> => new Set([
+    CONFIG.VAULT_ASSET_MINT.toBase58(),
+    ...Object.values(useVaultStore.getState().vaults).map((vault) => vault.assetMint.toBase58()),
+]);
+
+// mint_tokens only pays the caller's ATA, so other recipients get a transfer
+// from it in the same transaction
+const buildRecipientTransfer = (
+    caller: PublicKey,
+    mint: PublicKey,
+    recipient: PublicKey,
+    amount: BN,
+    decimals: number
+): TransactionInstruction[] => {
+    if (recipient.equals(caller)) return [];
+
+    const callerAta = getAssociatedTokenAddressSync(mint, caller);
+    const recipientAta = getAssociatedTokenAddressSync(mint, recipient, true);
+    return [
+        createAssociatedTokenAccountIdempotentInstruction(caller, recipientAta, recipient, mint),
+        createTransferCheckedInstruction(
+            callerAta,
+            mint,
+            recipientAta,
+            caller,
+            BigInt(amount.toString()),
+            decimals
+        ),
+    ];
+};
+
 export const useToken = (): UseTokenReturn => {
     console.log('[useToken] === HOOK CALL START ===');
 
@@ -59,6 +113,8 @@ export const useToken = (): UseTokenReturn => {
 
     // Network store (read-only)
     const { connection, currentNetwork, isSolanaNetwork, isReady: isNetworkReady } = useNetworkStore();
+    const feeTier = useSettingsStore(selectFeeTier);
+    const setLastFeeEstimate = useSettingsStore((state) => state.setLastFeeEstimate);
 
     // Token store (read-only + actions)
     const {
@@ -67,11 +123,15 @@ export const useToken = (): UseTokenReturn => {
         mintAuthPda,
         loading,
         error,
+        txError,
         setProgram,
         setMintAuthPda,
         setUserTokens,
+        setVaultAssetFlags,
+        addCreatedMint,
         setLoading,
         setError,
+        setTxError,
     } = useTokenStore();
 
     // Loading guards to prevent concurrent operations
@@ -86,6 +146,16 @@ export const useToken = (): UseTokenReturn => {
         hasError: !!error
     });
 
+    // Vaults load independently of tokens; re-flag holdings when they arrive
+    useEffect(() => {
+        const unsubscribe = useVaultStore.subscribe((state, prevState) => {
+            if (state.vaults !== prevState?.vaults) {
+                setVaultAssetFlags(getVaultAssetMints());
+            }
+        });
+        return unsubscribe;
+    }, [setVaultAssetFlags]);
+
     // Network change effect - resets loading flags only
     useEffect(() => {
         const unsubscribe = useNetworkStore.subscribe((state, prevState) => {
@@ -93,6 +163,9 @@ export const useToken = (): UseTokenReturn => {
                 console.log('[useToken] Network changed - resetting loading flags');
                 hasInitializedProgram.current = false;
                 hasLoadedTokenData.current = false;
+            } else if (state.connection !== prevState?.connection) {
+                console.log('[useToken] RPC endpoint changed - rebuilding program');
+                hasInitializedProgram.current = false;
             }
         });
         return unsubscribe;
@@ -124,7 +197,7 @@ export const useToken = (): UseTokenReturn => {
                 );
 
                 const newProgram = new Program<TestToken>(
-                    IDL as TestToken,
+                    withProgramAddress(IDL as TestToken, CONFIG.TOKEN_PROGRAM_ID),
                     anchorProvider
                 );
 
@@ -160,97 +233,95 @@ export const useToken = (): UseTokenReturn => {
         // console.log('[useToken] === PROGRAM INIT EFFECT END ===');
     }, [connection, address, walletProvider, isNetworkReady, isSolanaNetwork, setProgram, setMintAuthPda, setLoading, setError]);
 
-    // Token data loading effect - ONLY loads data when program is ready
-    useEffect(() => {
-        console.log('[useToken] === TOKEN DATA LOADING EFFECT START ===');
-
-
-        const loadTokenData = async () => {
-            if (hasLoadedTokenData.current) {
-                return;
-            }
-
-            if (!program || !address || !connection || !mintAuthPda) {
-                return;
-            }
-
-            try {
-                // console.log('[useToken] Loading token data...');
-                hasLoadedTokenData.current = true;
-                setLoading(true);
-
-                // Get all user token accounts
-                const userPublicKey = new PublicKey(address);
-                const supportedMints = CONFIG.TEST_TOKEN_MINTS;
-
-                const tokenAccountAddresses = supportedMints.map(mint =>
-                    getAssociatedTokenAddressSync(mint, userPublicKey)
-                );
-
-                // Single batch call to get all parsed account info
-                const parsedAccounts = await Promise.all(
-                    tokenAccountAddresses.map(addr =>
-                        connection.getParsedAccountInfo(addr).catch(() => null)
-                    )
-                );
+    // Load every token account the wallet owns; balances of known accounts are
+    // then kept current by useAccountSubscriptions
+    const loadTokenData = useCallback(async () => {
+        if (!program || !address || !connection || !mintAuthPda) {
+            return;
+        }
 
-                const results: UserToken[] = [];
+        try {
+            setLoading(true);
 
-                supportedMints.forEach((mint, i) => {
-                    const parsedAccount = parsedAccounts[i];
+            // Get all user token accounts
+            const userPublicKey = new PublicKey(address);
+            const vaultAssets = getVaultAssetMints();
+
+            // Every token account the wallet owns under both token programs,
+            // including empty and non-associated ones
+            const programIds = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+            const accountsByProgram = await Promise.all(
+                programIds.map(programId =>
+                    connection.getParsedTokenAccountsByOwner(userPublicKey, { programId })
+                )
+            );
+
+            const results: UserToken[] = [];
+
+            accountsByProgram.forEach(({ value: accounts }, i) => {
+                const programId = programIds[i];
+
+                accounts.forEach(({ pubkey, account }) => {
+                    const tokenData = account.data.parsed.info;
+                    const mint = new PublicKey(tokenData.mint);
+                    const decimals = Number(tokenData.tokenAmount.decimals);
+                    rememberMintDecimals(mint, decimals);
+
+                    results.push({
+                        mint,
+                        balance: Number(tokenData.tokenAmount.uiAmount) || 0,
+                        amount: new BN(tokenData.tokenAmount.amount),
+                        account: pubkey,
+                        decimals,
+                        programId,
+                        isAssociated: pubkey.equals(
+                            getAssociatedTokenAddressSync(mint, userPublicKey, true, programId)
+                        ),
+                        isFrozen: tokenData.state === 'frozen',
+                        isVaultAsset: vaultAssets.has(mint.toBase58()),
+                    });
+                });
+            });
 
-                    if (parsedAccount?.value?.data && 'parsed' in parsedAccount.value.data) {
-                        const tokenData = parsedAccount.value.data.parsed.info;
-                        const balance = Number(tokenData.tokenAmount.uiAmount) || 0;
-                        const decimals = Number(tokenData.tokenAmount.decimals);
+            // Vault assets first, then the largest balances
+            results.sort((a, b) =>
+                Number(b.isVaultAsset) - Number(a.isVaultAsset) || b.balance - a.balance
+            );
 
-                        if (balance > 0) {
-                            results.push({
-                                mint,
-                                balance,
-                                account: tokenAccountAddresses[i],
-                                decimals
-                            });
-                        }
-                    }
-                });
+            // Warm the decimals cache for mints the wallet holds no account for yet
+            await prefetchMintDecimals(connection, [CONFIG.VAULT_ASSET_MINT, CONFIG.SHARE_MINT, ...CONFIG.TEST_TOKEN_MINTS]);
 
-                // Update store with results
-                setUserTokens(results);
-                // console.log('[useToken] Token data loaded successfully:', results.length, 'tokens');
+            // Update store with results
+            setUserTokens(results);
+            // console.log('[useToken] Token data loaded successfully:', results.length, 'tokens');
 
-            } catch (err) {
-                // console.error('[useToken] Error loading token data:', err);
-                setError(`Failed to load token data: ${(err as Error).message}`);
-                hasLoadedTokenData.current = false;
-            } finally {
-                setLoading(false);
-            }
-        };
+        } catch (err) {
+            // console.error('[useToken] Error loading token data:', err);
+            setError(`Failed to load token data: ${(err as Error).message}`);
+            hasLoadedTokenData.current = false;
+        } finally {
+            setLoading(false);
+        }
+    }, [program, address, connection, mintAuthPda, setUserTokens, setLoading, setError]);
 
+    // Token data loading effect - ONLY loads data when program is ready
+    useEffect(() => {
         if (program && address && connection && mintAuthPda && !hasLoadedTokenData.current && !loading) {
-            // console.log('[useToken] Starting token data loading...');
+            hasLoadedTokenData.current = true;
             loadTokenData();
         }
+    }, [program, address, connection, mintAuthPda, loading, loadTokenData]);
 
-        console.log('[useToken] === TOKEN DATA LOADING EFFECT END ===');
-    }, [program, address, connection, mintAuthPda, setUserTokens, setLoading, setError]);
-    // [program, address, connection, mintAuthPda, setUserTokens, setLoading, setError, loading]);
-    // Action functions
-    const refreshAllData = useCallback(() => {
-        // console.log('[useToken] === REFRESH ALL DATA START ===');
-        if (program && address && connection && mintAuthPda) {
-            hasLoadedTokenData.current = false;
-            // The effect will automatically trigger
-        }
-        // console.log('[useToken] === REFRESH ALL DATA END ===');
-    }, [program, address, connection, mintAuthPda]);
+    // Action functions - a full reload, which also discovers accounts created since
+    const refreshAllData = useCallback(async () => {
+        await loadTokenData();
+    }, [loadTokenData]);
 
     // Mint tokens - ACTION only, updates store automatically
-    const mintTokens = useCallback(async (amount: BN, mintAddress?: PublicKey): Promise<string | null> => {
+    const mintTokens = useCallback(async (amount: BN, mintAddress?: PublicKey, recipient?: PublicKey): Promise<string | null> => {
         // console.log('[useToken] === MINT TOKENS START ===');
 
-        if (!program || !address || !mintAuthPda) {
+        if (!program || !address || !mintAuthPda || !connection || !walletProvider) {
             setError('Program not initialized');
             return null;
         }
@@ -262,6 +333,7 @@ export const useToken = (): UseTokenReturn => {
 
         setLoading(true);
         setError(null);
+        setTxError(null);
 
         try {
             const userPublicKey = new PublicKey(address);
@@ -272,28 +344,240 @@ export const useToken = (): UseTokenReturn => {
             //     caller: userPublicKey.toBase58(),
             // });
 
-            const tx = await program.methods
+            const builder = program.methods
                 .mintTokens(amount)
                 .accounts({
                     caller: userPublicKey,
                     mint: mintAddress,
-                })
-                .rpc();
+                });
+
+            const transferInstructions = recipient && !recipient.equals(userPublicKey)
+                ? buildRecipientTransfer(
+                    userPublicKey,
+                    mintAddress,
+                    recipient,
+                    amount,
+                    await fetchMintDecimals(connection, mintAddress)
+                )
+                : [];
+
+            // Size the compute budget and priority fee; a failing simulation never reaches the wallet
+            const prepared = await prepareTransaction(
+                connection,
+                userPublicKey,
+                [await builder.instruction(), ...transferInstructions],
+                feeTier
+            );
+            setLastFeeEstimate(prepared.feeEstimate);
+
+            if (!prepared.simulation.success) {
+                setTxError(prepared.simulation.error);
+                setError(`Failed to mint tokens: ${prepared.simulation.error?.userMessage ?? 'simulation failed'}`);
+                return null;
+            }
+
+            const tx = await sendTrackedTransaction(
+                connection,
+                walletProvider,
+                await builder
+                    .preInstructions(prepared.computeBudgetInstructions)
+                    .postInstructions(transferInstructions)
+                    .transaction(),
+                { label: transferInstructions.length > 0 ? 'Mint Tokens to Recipient' : 'Mint Tokens' }
+            );
+            await confirmTrackedTransaction(tx);
 
             // console.log('[useToken] Tokens minted successfully:', tx);
 
-            // Refresh store data after successful mint
+            // Known accounts update through subscriptions; reload to discover an ATA this mint created
             refreshAllData();
 
             return tx;
         } catch (err) {
             // console.error('[useToken] Error minting tokens:', err);
-            setError(`Failed to mint tokens: ${(err as Error).message}`);
+            const decoded = decodeProgramError(err);
+            setTxError(decoded);
+            setError(`Failed to mint tokens: ${decoded.userMessage}`);
+            return null;
+        } finally {
+            setLoading(false);
+        }
+    }, [program, address, connection, walletProvider, mintAuthPda, feeTier, refreshAllData, setLoading, setError, setTxError, setLastFeeEstimate]);
+
+    // Fund many wallets - ACTION only. Rows are validated up front, then sent
+    // BATCH_MINT_ROWS_PER_TRANSACTION at a time; a failed transaction fails
+    // only its own rows and the batch carries on
+    const batchMintTokens = useCallback(async (mintAddress: PublicKey, rows: BatchMintRow[]): Promise<BatchMintResult[]> => {
+        if (!program || !address || !mintAuthPda || !connection || !walletProvider) {
+            setError('Program not initialized');
+            return [];
+        }
+
+        setLoading(true);
+        setError(null);
+        setTxError(null);
+
+        const results: BatchMintResult[] = [];
+        const fail = (row: BatchMintRow, error: string) =>
+            results.push({ ...row, status: 'failed', signature: null, error });
+
+        try {
+            const userPublicKey = new PublicKey(address);
+            const decimals = await fetchMintDecimals(connection, mintAddress);
+
+            const valid: { row: BatchMintRow; recipient: PublicKey; amount: BN }[] = [];
+            for (const row of rows) {
+                let recipient: PublicKey;
+                try {
+                    recipient = new PublicKey(row.address);
+                } catch {
+                    fail(row, 'Invalid address');
+                    continue;
+                }
+                const parsed = parseTokenAmount(row.amount, decimals);
+                if (parsed.error !== null) {
+                    fail(row, parsed.error);
+                    continue;
+                }
+                valid.push({ row, recipient, amount: parsed.amount });
+            }
+
+            for (let i = 0; i < valid.length; i += BATCH_MINT_ROWS_PER_TRANSACTION) {
+                const chunk = valid.slice(i, i + BATCH_MINT_ROWS_PER_TRANSACTION);
+
+                try {
+                    const instructions: TransactionInstruction[] = [];
+                    for (const { recipient, amount } of chunk) {
+                        instructions.push(
+                            await program.methods
+                                .mintTokens(amount)
+                                .accounts({
+                                    caller: userPublicKey,
+                                    mint: mintAddress,
+                                })
+                                .instruction(),
+                            ...buildRecipientTransfer(userPublicKey, mintAddress, recipient, amount, decimals)
+                        );
+                    }
+
+                    const prepared = await prepareTransaction(connection, userPublicKey, instructions, feeTier);
+                    setLastFeeEstimate(prepared.feeEstimate);
+
+                    if (!prepared.simulation.success) {
+                        const message = prepared.simulation.error?.userMessage ?? 'simulation failed';
+                        chunk.forEach(({ row }) => fail(row, message));
+                        continue;
+                    }
+
+                    const tx = await sendTrackedTransaction(
+                        connection,
+                        walletProvider,
+                        new Transaction().add(...prepared.computeBudgetInstructions, ...instructions),
+                        { label: `Batch Mint (${chunk.length} rows)` }
+                    );
+                    await confirmTrackedTransaction(tx);
+
+                    chunk.forEach(({ row }) => results.push({ ...row, status: 'success', signature: tx, error: null }));
+                } catch (err) {
+                    const message = decodeProgramError(err).userMessage;
+                    chunk.forEach(({ row }) => fail(row, message));
+                }
+            }
+
+            const failed = results.filter((r) => r.status === 'failed').length;
+            if (failed > 0) {
+                setError(`Batch mint: ${failed} of ${rows.length} rows failed`);
+            }
+
+            refreshAllData();
+        } catch (err) {
+            // Setup failed (e.g. the mint couldn't be loaded) before anything was sent
+            const message = decodeProgramError(err).userMessage;
+            rows
+                .filter((row) => !results.some((r) => r.row === row.row))
+                .forEach((row) => fail(row, message));
+            setError(`Batch mint failed: ${message}`);
+        } finally {
+            setLoading(false);
+        }
+
+        return results.sort((a, b) => a.row - b.row);
+    }, [program, address, connection, walletProvider, mintAuthPda, feeTier, refreshAllData, setLoading, setError, setTxError, setLastFeeEstimate]);
+
+    // Create a new mint under the mint_auth PDA - ACTION only, records it per network
+    const initializeMint = useCallback(async (): Promise<PublicKey | null> => {
+        if (!program || !address || !connection || !walletProvider || !currentNetwork) {
+            setError('Program not initialized');
+            return null;
+        }
+
+        setLoading(true);
+        setError(null);
+        setTxError(null);
+
+        try {
+            const userPublicKey = new PublicKey(address);
+            const mintKeypair = Keypair.generate();
+
+            const builder = program.methods
+                .initialize()
+                .accounts({
+                    payer: userPublicKey,
+                    mint: mintKeypair.publicKey,
+                });
+
+            const prepared = await prepareTransaction(
+                connection,
+                userPublicKey,
+                [await builder.instruction()],
+                feeTier
+            );
+            setLastFeeEstimate(prepared.feeEstimate);
+
+            if (!prepared.simulation.success) {
+                setTxError(prepared.simulation.error);
+                setError(`Failed to create mint: ${prepared.simulation.error?.userMessage ?? 'simulation failed'}`);
+                return null;
+            }
+
+            const tx = await sendTrackedTransaction(
+                connection,
+                walletProvider,
+                await builder.preInstructions(prepared.computeBudgetInstructions).transaction(),
+                { label: 'Create Test Mint', signers: [mintKeypair] }
+            );
+            await confirmTrackedTransaction(tx);
+
+            addCreatedMint(currentNetwork, {
+                mint: mintKeypair.publicKey.toBase58(),
+                signature: tx,
+                createdAt: Date.now(),
+            });
+
+            return mintKeypair.publicKey;
+        } catch (err) {
+            const decoded = decodeProgramError(err);
+            setTxError(decoded);
+            setError(`Failed to create mint: ${decoded.userMessage}`);
             return null;
         } finally {
             setLoading(false);
         }
-    }, [program, address, mintAuthPda, refreshAllData, setLoading, setError]);
+    }, [program, address, connection, walletProvider, currentNetwork, feeTier, addCreatedMint, setLoading, setError, setTxError, setLastFeeEstimate]);
+
+    // Get mint supply - UTILITY function (doesn't update store)
+    const getMintSupply = useCallback(async (mintAddress: PublicKey): Promise<MintSupply | null> => {
+        if (!connection) return null;
+
+        try {
+            const { value } = await connection.getTokenSupply(mintAddress);
+            rememberMintDecimals(mintAddress, value.decimals);
+            return { amount: new BN(value.amount), decimals: value.decimals };
+        } catch (err) {
+            console.warn('[useToken] Failed to load mint supply:', mintAddress.toBase58(), err);
+            return null;
+        }
+    }, [connection]);
 
     // Get user balance - UTILITY function (doesn't update store)
     const getUserBalance = useCallback(async (mintAddress?: PublicKey): Promise<number> => {
@@ -322,6 +606,7 @@ export const useToken = (): UseTokenReturn => {
         mintAuthPda,
         loading,
         error,
+        txError,
 
         // Network state (read-only)
         connection,
@@ -335,7 +620,10 @@ export const useToken = (): UseTokenReturn => {
 
         // Actions only
         mintTokens,
+        batchMintTokens,
+        initializeMint,
         getUserBalance,
+        getMintSupply,
         refreshAllData,
     };
 };
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useAppKitAccount } from '@reown/appkit/react';
+import { PublicKey } from '@solana/web3.js';
+
+// Import stores
+import { useNetworkStore } from '@/store/networkStore';
+import { useUniqueIdStore, selectUserNFTs } from '@/store/uniqueIdStore';
+import { useVaultStore, selectVaults } from '@/store/vaultStore';
+
+import { VaultUtils } from '@/config/programs';
+import { fetchHistoryEntries, fetchSignatures, type HistoryEntry } from '@/lib/transactionHistory';
+
+export interface UseTransactionHistoryReturn {
+    entries: HistoryEntry[];
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+/**
+ * Recent program activity for the connected wallet: its own signatures, the
+ * UserInfo PDA of every owned identity NFT in every discovered vault, and the
+ * collection PDA.
+ */
+export const useTransactionHistory = (): UseTransactionHistoryReturn => {
+    const { address } = useAppKitAccount();
+    const { connection, currentNetwork, isReady: isNetworkReady } = useNetworkStore();
+    const userNFTs = useUniqueIdStore(selectUserNFTs);
+    const vaults = useVaultStore(selectVaults);
+
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Bumped per load and per network switch; only the latest load may write its results
+    const requestId = useRef(0);
+
+    const addresses = useMemo(() => {
+        // PDAs derive from the active deployment's program IDs, so wait for the network
+        if (!address || !isNetworkReady || !currentNetwork) return [];
+
+        const wallet = new PublicKey(address);
+        const userInfoPdas = Object.values(vaults).flatMap((vaultRef) =>
+            userNFTs.map((nft) => VaultUtils.getDerivedAccountsForUser(wallet, nft.mint, vaultRef).userInfoPda)
+        );
+
+        return [wallet, ...userInfoPdas, VaultUtils.getCollectionPDA()[0]];
+    }, [address, isNetworkReady, currentNetwork, userNFTs, vaults]);
+
+    const refresh = useCallback(async () => {
+        if (!connection || addresses.length === 0) return;
+
+        const id = ++requestId.current;
+        // Results from a superseded load or another cluster are dropped
+        const isStale = () => {
+            const network = useNetworkStore.getState();
+            return id !== requestId.current
+                || network.connection !== connection
+                || network.currentNetwork !== currentNetwork;
+        };
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            const signatures = await fetchSignatures(connection, addresses);
+            const decoded = await fetchHistoryEntries(connection, signatures.map((s) => s.signature));
+            if (isStale()) {
+                console.log('[useTransactionHistory] Dropping stale history load');
+                return;
+            }
+
+            console.log('[useTransactionHistory] Loaded history:', {
+                addresses: addresses.length,
+                signatures: signatures.length,
+                entries: decoded.length
+            });
+
+            setEntries(decoded);
+        } catch (err) {
+            if (isStale()) return;
+            console.error('[useTransactionHistory] Failed to load history:', err);
+            setError(`Failed to load history: ${(err as Error).message}`);
+        } finally {
+            if (id === requestId.current) {
+                setLoading(false);
+            }
+        }
+    }, [connection, currentNetwork, addresses]);
+
+    // Entries from the previous cluster don't belong to this one; declared first so
+    // the switch invalidates old loads before the new cluster's load starts
+    useEffect(() => {
+        requestId.current++;
+        setEntries([]);
+        setLoading(false);
+    }, [currentNetwork]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return { entries, loading, error, refresh };
+};
@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+
+import { useNetworkStore } from '@/store/networkStore';
+import { pollPendingTransactions } from '@/lib/transactionTracker';
+
+// Slots are ~400ms; every few slots is enough to rebroadcast and notice expiry
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Centralized transaction tracking hook
+ * This should only be used ONCE in your app (next to useNetworkSync).
+ * Pending transactions persisted from a previous session resume here.
+ */
+export const useTransactionTracker = () => {
+    const connection = useNetworkStore((state) => state.connection);
+    const currentNetwork = useNetworkStore((state) => state.currentNetwork);
+    const isReady = useNetworkStore((state) => state.isReady);
+
+    useEffect(() => {
+        if (!connection || !isReady) return;
+
+        let cancelled = false;
+        let polling = false;
+
+        const tick = async () => {
+            // Skip a tick rather than stack requests on a slow RPC
+            if (polling || cancelled) return;
+            polling = true;
+            try {
+                await pollPendingTransactions(connection, currentNetwork);
+            } catch (err) {
+                console.warn('[useTransactionTracker] Poll failed:', err);
+            } finally {
+                polling = false;
+            }
+        };
+
+        tick();
+        const interval = setInterval(tick, POLL_INTERVAL_MS);
+
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [connection, currentNetwork, isReady]);
+};
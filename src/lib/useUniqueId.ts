@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAppKitAccount, useAppKitProvider } from '@reown/appkit/react';
-import { Program, AnchorProvider } from '@coral-xyz/anchor';
+import { Program, AnchorProvider, EventParser, BN } from '@coral-xyz/anchor';
 import {
   PublicKey,
   Keypair,
@@ -17,10 +17,14 @@ import IDL from '@/idl/unique_low.json';
 
 // Import stores
 import { useNetworkStore } from '@/store/networkStore';
-import { useUniqueIdStore, type MintedNFT } from '@/store/uniqueIdStore';
+import { useSettingsStore, selectFeeTier } from '@/store/settingsStore';
+import { useUniqueIdStore, type MintedNFT, type Collection, type CrossChainRequest } from '@/store/uniqueIdStore';
 
 // Import new config structure
-import { CONFIG } from '@/config/programs';
+import { CONFIG, WormholeUtils, withProgramAddress } from '@/config/programs';
+import { decodeProgramError, type DecodedProgramError } from '@/lib/programErrors';
+import { prepareTransaction } from '@/lib/transactionBuilder';
+import { sendTrackedTransaction, confirmTrackedTransaction } from '@/lib/transactionTracker';
 
 export interface UseUniqueIdReturn {
   // Store state (read-only)
@@ -30,8 +34,11 @@ export interface UseUniqueIdReturn {
   totalSupply: number;
   userNonce: number;
   isCollectionInitialized: boolean;
+  userNFTs: MintedNFT[];
+  crossChainRequests: CrossChainRequest[];
   loading: boolean;
   error: string | null;
+  txError: DecodedProgramError | null;
 
   // Network state (read-only)
   connection: any | null;
@@ -54,13 +61,15 @@ export interface UseUniqueIdReturn {
   initializeCollection: (name: string, symbol: string, baseUri: string) => Promise<string | null>;
   mintNFT: () => Promise<MintedNFT | null>;
   mintMultipleNFTs: (count: number) => Promise<MintedNFT[] | null>;
+  loadUserNFTs: (collectionData?: Collection | null) => Promise<MintedNFT[]>;
+  requestCrossChainMint: (nftMint: PublicKey, targetChainId: number, recipient: string) => Promise<CrossChainRequest | null>;
   uniqueIdExists: (uniqueId: number[]) => Promise<boolean>;
   getTokenIdByUniqueId: (uniqueId: number[]) => Promise<number | null>;
   getUniqueIdByTokenId: (tokenId: number) => Promise<number[] | null>;
   getUniqueIdByMint: (mint: PublicKey) => Promise<number[] | null>;
   
   // Store actions
-  refreshAllData: () => void;
+  refreshAllData: () => Promise<void>;
 }
 
 export const useUniqueId = (): UseUniqueIdReturn => {
@@ -72,6 +81,8 @@ export const useUniqueId = (): UseUniqueIdReturn => {
 
   // Network store (read-only)
   const { connection, currentNetwork, isSolanaNetwork, isReady: isNetworkReady } = useNetworkStore();
+  const feeTier = useSettingsStore(selectFeeTier);
+  const setLastFeeEstimate = useSettingsStore((state) => state.setLastFeeEstimate);
 
   // UniqueId store (read-only + actions)
   const {
@@ -81,14 +92,21 @@ export const useUniqueId = (): UseUniqueIdReturn => {
     totalSupply,
     userNonce,
     isCollectionInitialized,
+    userNFTs,
+    crossChainRequests,
     loading,
     error,
+    txError,
     setProgram,
     setCollection,
     setUserState,
     setIsCollectionInitialized,
+    setUserNFTs,
+    addMintedNFT,
+    addCrossChainRequest,
     setLoading,
     setError,
+    setTxError,
   } = useUniqueIdStore();
 
   // Local state (specific to this hook)
@@ -120,6 +138,9 @@ export const useUniqueId = (): UseUniqueIdReturn => {
         hasInitializedProgram.current = false;
         hasLoadedNFTData.current = false;
         setUserStatePda(null);
+      } else if (state.connection !== prevState?.connection) {
+        console.log('[useUniqueId] RPC endpoint changed - rebuilding program');
+        hasInitializedProgram.current = false;
       }
     });
     return unsubscribe;
@@ -151,7 +172,7 @@ export const useUniqueId = (): UseUniqueIdReturn => {
         );
 
         const newProgram = new Program<UniqueLow>(
-          IDL as UniqueLow,
+          withProgramAddress(IDL as UniqueLow, CONFIG.NFT_PROGRAM_ID),
           anchorProvider
         );
 
@@ -188,84 +209,123 @@ export const useUniqueId = (): UseUniqueIdReturn => {
     console.log('[useUniqueId] === PROGRAM INIT EFFECT END ===');
   }, [connection, address, walletProvider, isNetworkReady, isSolanaNetwork, programId, collectionPda, setProgram, setLoading, setError]);
 
-  // NFT data loading effect - ONLY loads data when program is ready
-  useEffect(() => {
-    console.log('[useUniqueId] === NFT DATA LOADING EFFECT START ===');
+  // Scan the wallet's token accounts and keep only mints registered in the collection
+  const loadUserNFTs = useCallback(async (collectionData?: Collection | null): Promise<MintedNFT[]> => {
+    const source = collectionData ?? collection;
+    if (!connection || !address || !source) {
+      setUserNFTs([]);
+      return [];
+    }
 
-    const loadNFTData = async () => {
-      if (hasLoadedNFTData.current) {
-        return;
-      }
+    console.log('[useUniqueId] === LOAD USER NFTS START ===');
 
-      if (!program || !userStatePda || !connection) {
-        return;
-      }
+    const owner = new PublicKey(address);
+    const { value: tokenAccounts } = await connection.getParsedTokenAccountsByOwner(owner, {
+      programId: TOKEN_PROGRAM_ID,
+    });
 
-      try {
-        
-        hasLoadedNFTData.current = true;
-        setLoading(true);
-        
-        
-        
-        // Fetch collection data
-        const collectionData = await program.account.collection.fetchNullable(collectionPda);
-        if (collectionData) {
-          // console.log('[useUniqueId] Collection data loaded:', {
-          //   name: collectionData.name,
-          //   totalSupply: collectionData.totalSupply.toNumber(),
-          //   authority: collectionData.authority.toBase58()
-          // });
-          setCollection(collectionData);
-          setIsCollectionInitialized(true);
-        } else {
-          console.log('[useUniqueId] Collection not found - needs initialization');
-          setIsCollectionInitialized(false);
-        }
+    const uniqueIdByMint = new Map<string, number[]>(
+      source.mintToUniqueId.map((entry) => [entry.mint.toBase58(), entry.uniqueId])
+    );
+    const tokenIdByUniqueId = new Map<string, number>(
+      source.tokenIdToUniqueId.map((entry) => [entry.uniqueId.join(','), Number(entry.tokenId.toString())])
+    );
 
-        
-        // Fetch user state
-        const userStateData = await program.account.userState.fetchNullable(userStatePda);
-        if (userStateData) {
-          
-          setUserState({ 
-            user: userStatePda,
-            nonce: userStateData.nonce.toNumber() 
-          });
-        } else {
-          console.log('[useUniqueId] User state not found - will be created on first mint');
-          setUserState(null);
-        }
+    // Keep session-only data (tx signatures) for NFTs we minted ourselves
+    const previous = new Map(
+      useUniqueIdStore.getState().userNFTs.map((nft) => [nft.mint.toBase58(), nft])
+    );
 
-        
+    const owned: MintedNFT[] = [];
+    for (const { pubkey, account } of tokenAccounts) {
+      const info = account.data.parsed?.info;
+      if (!info || info.tokenAmount?.amount !== '1') continue;
+
+      const uniqueId = uniqueIdByMint.get(info.mint);
+      if (!uniqueId) continue;
+
+      // Both tables must list it; a half-indexed mint is picked up by a later scan
+      const tokenId = tokenIdByUniqueId.get(uniqueId.join(','));
+      if (tokenId === undefined) continue;
+
+      owned.push({
+        mint: new PublicKey(info.mint),
+        tokenAccount: pubkey,
+        tokenId,
+        uniqueId,
+        txSignature: previous.get(info.mint)?.txSignature,
+      });
+    }
 
-      } catch (err) {
-        // console.error('[useUniqueId] Error loading NFT data:', err);
-        setError(`Failed to load NFT data: ${(err as Error).message}`);
-        hasLoadedNFTData.current = false;
-      } finally {
-        setLoading(false);
-      }
-    };
+    owned.sort((a, b) => a.tokenId - b.tokenId);
 
-    if (program && userStatePda && connection && !hasLoadedNFTData.current && !loading) {
-      
-      loadNFTData();
+    console.log('[useUniqueId] Wallet NFTs discovered:', {
+      scannedAccounts: tokenAccounts.length,
+      collectionMints: uniqueIdByMint.size,
+      owned: owned.length
+    });
+
+    setUserNFTs(owned);
+    console.log('[useUniqueId] === LOAD USER NFTS END ===');
+    return owned;
+  }, [connection, address, collection, setUserNFTs]);
+
+  // Load the collection, the wallet's NFTs and its user state; the collection
+  // is then kept current by useAccountSubscriptions
+  const loadNFTData = useCallback(async () => {
+    if (!program || !userStatePda || !connection) {
+      return;
     }
 
-    console.log('[useUniqueId] === NFT DATA LOADING EFFECT END ===');
-  }, [program, userStatePda, connection, collectionPda, setCollection, setUserState, setIsCollectionInitialized, setLoading, setError]);
-// [program, userStatePda, connection, collectionPda, setCollection, setUserState, setIsCollectionInitialized, setLoading, setError, loading]);
+    try {
+      setLoading(true);
+
+      // Fetch collection data
+      const collectionData = await program.account.collection.fetchNullable(collectionPda);
+      if (collectionData) {
+        setCollection(collectionData);
+        setIsCollectionInitialized(true);
+        await loadUserNFTs(collectionData);
+      } else {
+        console.log('[useUniqueId] Collection not found - needs initialization');
+        setIsCollectionInitialized(false);
+        setUserNFTs([]);
+      }
 
-  // Action functions
-  const refreshAllData = useCallback(() => {
-    console.log('[useUniqueId] === REFRESH ALL DATA START ===');
-    if (program && userStatePda && connection) {
+      // Fetch user state
+      const userStateData = await program.account.userState.fetchNullable(userStatePda);
+      if (userStateData) {
+        setUserState({
+          user: userStatePda,
+          nonce: userStateData.nonce.toNumber()
+        });
+      } else {
+        console.log('[useUniqueId] User state not found - will be created on first mint');
+        setUserState(null);
+      }
+
+    } catch (err) {
+      // console.error('[useUniqueId] Error loading NFT data:', err);
+      setError(`Failed to load NFT data: ${(err as Error).message}`);
       hasLoadedNFTData.current = false;
-      // The effect will automatically trigger
+    } finally {
+      setLoading(false);
     }
-    console.log('[useUniqueId] === REFRESH ALL DATA END ===');
-  }, [program, userStatePda, connection]);
+  }, [program, userStatePda, connection, collectionPda, loadUserNFTs, setCollection, setUserState, setIsCollectionInitialized, setUserNFTs, setLoading, setError]);
+
+  // NFT data loading effect - ONLY loads data when program is ready
+  useEffect(() => {
+    if (program && userStatePda && connection && !hasLoadedNFTData.current && !loading) {
+      hasLoadedNFTData.current = true;
+      loadNFTData();
+    }
+  }, [program, userStatePda, connection, loading, loadNFTData]);
+
+  // Action functions - a full reload, e.g. for the user state nonce after a mint
+  const refreshAllData = useCallback(async () => {
+    console.log('[useUniqueId] === REFRESH ALL DATA ===');
+    await loadNFTData();
+  }, [loadNFTData]);
 
   // Initialize collection - ACTION only, updates store automatically
   const initializeCollection = useCallback(async (
@@ -275,7 +335,7 @@ export const useUniqueId = (): UseUniqueIdReturn => {
   ): Promise<string | null> => {
     console.log('[useUniqueId] === INITIALIZE COLLECTION START ===');
     
-    if (!program || !address) {
+    if (!program || !address || !walletProvider) {
       setError('Program not initialized or wallet not connected');
       return null;
     }
@@ -287,10 +347,11 @@ export const useUniqueId = (): UseUniqueIdReturn => {
 
     setLoading(true);
     setError(null);
+    setTxError(null);
 
     try {
-      // Generate a random Wormhole program ID (or use a real one if you have it)
-      const wormholeProgramId = Keypair.generate().publicKey;
+      // Use the configured Wormhole bridge (or a local stub); otherwise a placeholder that disables cross-chain
+      const wormholeProgramId = CONFIG.WORMHOLE_PROGRAM_ID ?? Keypair.generate().publicKey;
 
       // console.log('[useUniqueId] Initializing collection with params:', {
       //   name,
@@ -300,30 +361,101 @@ export const useUniqueId = (): UseUniqueIdReturn => {
       //   wormholeProgramId: wormholeProgramId.toBase58(),
       // });
 
-      const tx = await program.methods
+      const authority = new PublicKey(address);
+      const builder = program.methods
         .initialize(name, symbol, baseUri, wormholeProgramId)
         .accounts({
-          authority: new PublicKey(address),
-        })
-        .rpc({
-          commitment: 'confirmed',
-          skipPreflight: false,
+          authority,
         });
 
-      console.log('[useUniqueId] Collection initialized successfully! TX:', tx);
+      const prepared = await prepareTransaction(
+        program.provider.connection,
+        authority,
+        [await builder.instruction()],
+        feeTier
+      );
+      setLastFeeEstimate(prepared.feeEstimate);
 
-      // Refresh store data after successful initialization
-      refreshAllData();
+      if (!prepared.simulation.success) {
+        console.error('[useUniqueId] Initialize simulation failed:', prepared.simulation.error);
+        setTxError(prepared.simulation.error);
+        setError(`Failed to initialize: ${prepared.simulation.error?.userMessage ?? 'simulation failed'}`);
+        return null;
+      }
+
+      const tx = await sendTrackedTransaction(
+        program.provider.connection,
+        walletProvider,
+        await builder.preInstructions(prepared.computeBudgetInstructions).transaction(),
+        { label: 'Initialize Collection' }
+      );
+      await confirmTrackedTransaction(tx);
+
+      console.log('[useUniqueId] Collection initialized successfully! TX:', tx);
+      // The new collection account reaches the store through useAccountSubscriptions
 
       return tx;
     } catch (err) {
       console.error('[useUniqueId] Error initializing collection:', err);
-      setError(`Failed to initialize: ${(err as Error).message}`);
+      const decoded = decodeProgramError(err);
+      setTxError(decoded);
+      setError(`Failed to initialize: ${decoded.userMessage}`);
       return null;
     } finally {
       setLoading(false);
     }
-  }, [program, address, isCollectionInitialized, refreshAllData, setLoading, setError]);
+  }, [program, address, walletProvider, isCollectionInitialized, feeTier, setLoading, setError, setTxError, setLastFeeEstimate]);
+
+  // Read the authoritative tokenId/uniqueId for a confirmed mint: NftMinted event first, collection tables second
+  const resolveMintedIdentity = useCallback(async (
+    signature: string,
+    mint: PublicKey,
+    user: PublicKey
+  ): Promise<{ tokenId: number; uniqueId: number[] } | null> => {
+    if (!program || !connection) return null;
+
+    try {
+      const txDetails = await connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      const logs: string[] = txDetails?.meta?.logMessages ?? [];
+      const parser = new EventParser(program.programId, program.coder);
+
+      for (const event of parser.parseLogs(logs)) {
+        if (event.name !== 'nftMinted') continue;
+        const data = event.data as { user: PublicKey; tokenId: BN; uniqueId: number[] };
+        if (!data.user.equals(user)) continue;
+
+        console.log('[useUniqueId] Resolved mint from NftMinted event:', {
+          tokenId: data.tokenId.toString(),
+          signature
+        });
+        return { tokenId: data.tokenId.toNumber(), uniqueId: Array.from(data.uniqueId) };
+      }
+      console.warn('[useUniqueId] No NftMinted event in transaction logs, falling back to collection');
+    } catch (err) {
+      console.warn('[useUniqueId] Failed to parse mint transaction logs:', err);
+    }
+
+    // Fallback: look the mint up in the collection's mint_to_unique_id table
+    const collectionData = await program.account.collection.fetch(collectionPda, 'confirmed');
+    setCollection(collectionData);
+
+    const mintEntry = collectionData.mintToUniqueId.find((entry) => entry.mint.equals(mint));
+    if (!mintEntry) return null;
+
+    const uniqueKey = mintEntry.uniqueId.join(',');
+    const tokenEntry = collectionData.tokenIdToUniqueId.find(
+      (entry) => entry.uniqueId.join(',') === uniqueKey
+    );
+    if (!tokenEntry) return null;
+
+    console.log('[useUniqueId] Resolved mint from collection tables:', {
+      tokenId: tokenEntry.tokenId.toString()
+    });
+    return { tokenId: tokenEntry.tokenId.toNumber(), uniqueId: mintEntry.uniqueId };
+  }, [program, connection, collectionPda, setCollection]);
 
   // Mint NFT - ACTION only, updates store automatically
   const mintNFT = useCallback(async (): Promise<MintedNFT | null> => {
@@ -335,6 +467,7 @@ export const useUniqueId = (): UseUniqueIdReturn => {
 
     setLoading(true);
     setError(null);
+    setTxError(null);
 
     try {
       const userPublicKey = new PublicKey(address);
@@ -353,41 +486,222 @@ export const useUniqueId = (): UseUniqueIdReturn => {
       //   tokenAccount: tokenAccount.toBase58()
       // });
 
-      const tx = await program.methods
+      const builder = program.methods
         .mintNft()
         .accounts({
           mint: mintKeypair.publicKey,
           user: userPublicKey,
-        })
-        .signers([mintKeypair])
-        .rpc();
+        });
+
+      // Size the compute budget and priority fee; a failing simulation never reaches the wallet
+      const prepared = await prepareTransaction(
+        program.provider.connection,
+        userPublicKey,
+        [await builder.instruction()],
+        feeTier
+      );
+      setLastFeeEstimate(prepared.feeEstimate);
+
+      if (!prepared.simulation.success) {
+        console.error('[useUniqueId] Mint simulation failed:', prepared.simulation.error);
+        setTxError(prepared.simulation.error);
+        setError(`Failed to mint NFT: ${prepared.simulation.error?.userMessage ?? 'simulation failed'}`);
+        return null;
+      }
+
+      const tx = await sendTrackedTransaction(
+        program.provider.connection,
+        walletProvider,
+        await builder.preInstructions(prepared.computeBudgetInstructions).transaction(),
+        { label: 'Mint Identity NFT', signers: [mintKeypair] }
+      );
+      await confirmTrackedTransaction(tx);
 
       console.log('[useUniqueId] Mint transaction successful:', tx);
 
-      // Refresh store data after successful mint
-      refreshAllData();
+      // Concurrent mints make totalSupply + 1 unreliable, so read what the program actually assigned.
+      // The NFT is already in the wallet, so a failed lookup is only a warning
+      let identity: { tokenId: number; uniqueId: number[] } | null = null;
+      try {
+        identity = await resolveMintedIdentity(tx, mintKeypair.publicKey, userPublicKey);
+      } catch (err) {
+        console.warn('[useUniqueId] Could not resolve minted identity:', err);
+      }
+
+      if (!identity) {
+        // Never record placeholder ids; the wallet rescan adds the NFT once the collection lists it
+        console.warn('[useUniqueId] Mint confirmed but tokenId/uniqueId not resolved yet, rescanning:', {
+          mint: mintKeypair.publicKey.toBase58(),
+          signature: tx
+        });
+        await refreshAllData();
+
+        const rescanned = useUniqueIdStore.getState().getNFTByMint(mintKeypair.publicKey);
+        if (!rescanned) {
+          setError(`NFT ${mintKeypair.publicKey.toBase58()} was minted (${tx}) but its identity isn't indexed yet; it will appear after the next refresh`);
+          return null;
+        }
+        return { ...rescanned, txSignature: tx };
+      }
 
-      // Get the unique ID for this mint from refreshed collection data
-      // Note: This would need to wait for the refresh to complete
-      // For now, return basic NFT data
       const nftData: MintedNFT = {
         mint: mintKeypair.publicKey,
         tokenAccount,
-        tokenId: (collection?.totalSupply?.toNumber() || 0) + 1,
-        uniqueId: [],
+        tokenId: identity.tokenId,
+        uniqueId: identity.uniqueId,
         txSignature: tx,
       };
 
+      addMintedNFT(nftData);
+
+      // Refresh store data after successful mint
+      refreshAllData();
+
       console.log('[useUniqueId] NFT minted successfully:', nftData);
       return nftData;
     } catch (err) {
       console.error('[useUniqueId] Error minting NFT:', err);
-      setError(`Failed to mint NFT: ${(err as Error).message}`);
+      const decoded = decodeProgramError(err);
+      setTxError(decoded);
+      setError(`Failed to mint NFT: ${decoded.userMessage}`);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [program, address, userStatePda, walletProvider, feeTier, resolveMintedIdentity, addMintedNFT, refreshAllData, setLoading, setError, setTxError, setLastFeeEstimate]);
+
+  // Request a Wormhole message that mints this identity on another chain - ACTION only
+  const requestCrossChainMint = useCallback(async (
+    nftMint: PublicKey,
+    targetChainId: number,
+    recipient: string
+  ): Promise<CrossChainRequest | null> => {
+    console.log('[useUniqueId] === REQUEST CROSS CHAIN MINT START ===');
+
+    if (!program || !address || !connection || !walletProvider) {
+      setError('Wallet not connected or program not initialized');
+      return null;
+    }
+
+    setLoading(true);
+    setError(null);
+    setTxError(null);
+
+    try {
+      const userPublicKey = new PublicKey(address);
+      const recipientBytes = WormholeUtils.evmAddressToBytes32(recipient);
+
+      // The bridge program is whatever the collection was initialized with (real or stub)
+      const collectionData = collection ?? await program.account.collection.fetch(collectionPda);
+      const wormholeProgramId: PublicKey = collectionData.wormholeProgramId;
+
+      // A pinned wormhole_program fails the program's address check before anything is sent
+      const supportError = WormholeUtils.getCrossChainSupportError(wormholeProgramId);
+      if (supportError) {
+        console.error('[useUniqueId] Cross-chain mint unavailable:', supportError);
+        setError(`Cross-chain mint unavailable: ${supportError}`);
+        return null;
+      }
+
+      const [wormholeBridge] = WormholeUtils.getBridgeConfigPDA(wormholeProgramId);
+      const [wormholeFeeCollector] = WormholeUtils.getFeeCollectorPDA(wormholeProgramId);
+      const [wormholeEmitter] = WormholeUtils.getEmitterPDA();
+      const [wormholeSequence] = WormholeUtils.getSequencePDA(wormholeProgramId, wormholeEmitter);
+
+      const sequenceInfo = await connection.getAccountInfo(wormholeSequence);
+      const nextSequence = WormholeUtils.decodeNextSequence(sequenceInfo?.data);
+      const [wormholeMessage] = WormholeUtils.getMessagePDA(nextSequence);
+
+      const tokenAccount = await getAssociatedTokenAddress(nftMint, userPublicKey, false, TOKEN_PROGRAM_ID);
+      const nonce = Math.floor(Math.random() * 0xffffffff);
+
+      console.log('[useUniqueId] Cross-chain accounts:', {
+        wormholeProgram: wormholeProgramId.toBase58(),
+        bridge: wormholeBridge.toBase58(),
+        emitter: wormholeEmitter.toBase58(),
+        sequence: wormholeSequence.toBase58(),
+        expectedSequence: nextSequence.toString(),
+        message: wormholeMessage.toBase58(),
+        feeCollector: wormholeFeeCollector.toBase58(),
+        targetChainId,
+        recipient
+      });
+
+      const builder = program.methods
+        .requestCrossChainMint(nonce, targetChainId, recipientBytes)
+        .accountsPartial({
+          mint: nftMint,
+          tokenAccount,
+          user: userPublicKey,
+          wormholeBridge,
+          wormholeMessage,
+          wormholeEmitter,
+          wormholeSequence,
+          wormholeFeeCollector,
+          // Only reached when the IDL leaves this unpinned (see getCrossChainSupportError)
+          wormholeProgram: wormholeProgramId,
+        });
+
+      const prepared = await prepareTransaction(connection, userPublicKey, [await builder.instruction()], feeTier);
+      setLastFeeEstimate(prepared.feeEstimate);
+
+      if (!prepared.simulation.success) {
+        console.error('[useUniqueId] Cross-chain mint simulation failed:', prepared.simulation.error);
+        setTxError(prepared.simulation.error);
+        setError(`Cross-chain mint failed: ${prepared.simulation.error?.userMessage ?? 'simulation failed'}`);
+        return null;
+      }
+
+      const tx = await sendTrackedTransaction(
+        connection,
+        walletProvider,
+        await builder.preInstructions(prepared.computeBudgetInstructions).transaction(),
+        { label: 'Cross-Chain Mint' }
+      );
+      await confirmTrackedTransaction(tx);
+
+      console.log('[useUniqueId] Cross-chain mint requested:', tx);
+
+      // Sequence number the guardians will sign under, from CrossChainMintRequested
+      let sequence: string | null = null;
+      const txDetails = await connection.getTransaction(tx, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      const parser = new EventParser(program.programId, program.coder);
+      for (const event of parser.parseLogs(txDetails?.meta?.logMessages ?? [])) {
+        if (event.name === 'crossChainMintRequested') {
+          sequence = (event.data as { sequence: BN }).sequence.toString();
+          break;
+        }
+      }
+      if (sequence === null) {
+        console.warn('[useUniqueId] No CrossChainMintRequested event found, sequence unknown');
+      }
+
+      const request: CrossChainRequest = {
+        signature: tx,
+        mint: nftMint,
+        targetChainId,
+        recipient,
+        nonce,
+        sequence,
+        requestedAt: Date.now(),
+      };
+
+      addCrossChainRequest(request);
+      console.log('[useUniqueId] === REQUEST CROSS CHAIN MINT END ===');
+      return request;
+    } catch (err) {
+      console.error('[useUniqueId] Error requesting cross-chain mint:', err);
+      const decoded = decodeProgramError(err);
+      setTxError(decoded);
+      setError(`Cross-chain mint failed: ${decoded.userMessage}`);
       return null;
     } finally {
       setLoading(false);
     }
-  }, [program, address, userStatePda, walletProvider, collection, refreshAllData, setLoading, setError]);
+  }, [program, address, connection, walletProvider, collection, collectionPda, feeTier, addCrossChainRequest, setLoading, setError, setTxError, setLastFeeEstimate]);
 
   // Mint multiple NFTs - ACTION only
   const mintMultipleNFTs = useCallback(async (count: number): Promise<MintedNFT[] | null> => {
@@ -480,8 +794,11 @@ export const useUniqueId = (): UseUniqueIdReturn => {
     totalSupply,
     userNonce,
     isCollectionInitialized,
+    userNFTs,
+    crossChainRequests,
     loading,
     error,
+    txError,
 
     // Network state (read-only)
     connection,
@@ -504,6 +821,8 @@ export const useUniqueId = (): UseUniqueIdReturn => {
     initializeCollection,
     mintNFT,
     mintMultipleNFTs,
+    loadUserNFTs,
+    requestCrossChainMint,
     uniqueIdExists,
     getTokenIdByUniqueId,
     getUniqueIdByTokenId,
@@ -1,9 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useAppKitAccount, useAppKitProvider } from '@reown/appkit/react';
 import { Program, AnchorProvider, BN } from '@coral-xyz/anchor';
 import {
+    Connection,
     PublicKey,
+    Keypair,
     Commitment,
+    type AccountInfo,
 } from '@solana/web3.js';
 import { AnchorWallet } from '@solana/wallet-adapter-react';
 
@@ -12,22 +15,51 @@ import IDL from '@/idl/simple_vault.json';
 
 // Import stores
 import { useNetworkStore } from '@/store/networkStore';
-import { useVaultStore, type VaultData, type UserPosition } from '@/store/vaultStore';
+import { useSettingsStore, selectFeeTier } from '@/store/settingsStore';
+import { useUniqueIdStore, selectUserNFTs } from '@/store/uniqueIdStore';
+import {
+    useVaultStore,
+    type VaultData,
+    type UserPosition,
+    type VaultCloseSummary,
+    type DiscoveredVault,
+    type VaultBalance,
+    TransactionStatus,
+    type TransactionState,
+} from '@/store/vaultStore';
 
 // Import selection context
 import { useTokenSelection, useNFTSelection } from '@/context/SelectionContext';
 
+import { decodeProgramError, getProgramError } from '@/lib/programErrors';
+import { prepareTransaction } from '@/lib/transactionBuilder';
+import { sendTrackedTransaction, confirmTrackedTransaction } from '@/lib/transactionTracker';
+import {
+    getPositionValue,
+    getVaultMetrics,
+    nowInSeconds,
+    previewDeposit as previewDepositMath,
+    previewWithdraw as previewWithdrawMath,
+    previewWithdrawAssets as previewWithdrawAssetsMath,
+    toUiAmount,
+    type VaultMetrics,
+    type VaultPreview,
+} from '@/lib/vaultMath';
+
 // Import new config structure
-import { CONFIG, VaultUtils } from '@/config/programs';
+import { CONFIG, VaultUtils, withProgramAddress, type VaultRef } from '@/config/programs';
 
 export interface UseVaultReturn {
     // Store state (read-only)
     program: Program<SimpleVault> | null;
     vault: VaultData | null;
+    vaults: DiscoveredVault[];
+    selectedVault: DiscoveredVault | null;
     selectedNFTPosition: UserPosition | null;
     allUserPositions: UserPosition[];
     loading: boolean;
     userPositionLoading: boolean;
+    portfolioLoading: boolean;
     error: string | null;
 
     // Network state (read-only)
@@ -47,6 +79,8 @@ export interface UseVaultReturn {
     hasRequiredSelections: boolean;
 
     // Computed values
+    vaultBalance: VaultBalance | null;
+    vaultMetrics: VaultMetrics | null;
     programId: string;
     vaultConfig: typeof CONFIG;
 
@@ -54,28 +88,29 @@ export interface UseVaultReturn {
     deposit: (amount: BN, assetMint: PublicKey, userNftMint: PublicKey) => Promise<string | null>;
     withdraw: (shares: BN, assetMint: PublicKey, userNftMint: PublicKey) => Promise<string | null>;
     transactionState: TransactionState;
+
+    // Previews against the selected vault and NFT position (null until vault and balance load)
+    previewDeposit: (amount: BN) => VaultPreview | null;
+    previewWithdraw: (shares: BN) => VaultPreview | null;
+    previewWithdrawAssets: (assets: BN) => VaultPreview | null;
+
+    // Owner-only vault lifecycle actions
+    isVaultOwner: boolean;
+    closeSummary: VaultCloseSummary | null;
+    initializeVault: (assetMint: PublicKey, nftCollectionAddress: PublicKey) => Promise<string | null>;
+    loadCloseSummary: (assetMint: PublicKey) => Promise<VaultCloseSummary | null>;
+    closeVault: (assetMint: PublicKey) => Promise<string | null>;
     
     // Store actions
-    refreshVaultData: () => void;
-    refreshUserPosition: () => void;
-    refreshAllData: () => void;
-}
-
-export enum TransactionStatus {
-    IDLE = 'idle',
-    BUILDING = 'building',
-    SIGNING = 'signing',
-    CONFIRMING = 'confirming',
-    SUCCESS = 'success',
-    FAILED = 'failed'
+    setSelectedVault: (key: string) => void;
+    loadAllUserPositions: () => Promise<UserPosition[]>;
+    refreshVaultData: () => Promise<void>;
+    refreshUserPosition: () => Promise<void>;
+    refreshAllData: () => Promise<void>;
 }
 
-export interface TransactionState {
-    status: TransactionStatus;
-    signature: string | null;
-    error: string | null;
-    message: string;
-}
+// Transaction state lives in the vault store; re-exported for existing imports
+export { TransactionStatus, type TransactionState };
 
 interface PDAValidationResult {
     isValid: boolean;
@@ -96,36 +131,59 @@ interface PDAValidationResult {
     };
 }
 
+// The vault's cash. Only a token account that doesn't exist counts as empty;
+// any other read error is thrown so an unknown balance is never taken for zero
+const readVaultTokenBalance = async (
+    connection: Connection,
+    vaultTokenAccount: PublicKey
+): Promise<{ amount: BN; uiAmount: number }> => {
+    const info = await connection.getAccountInfo(vaultTokenAccount, 'confirmed');
+    if (!info) return { amount: new BN(0), uiAmount: 0 };
+
+    const balance = await connection.getTokenAccountBalance(vaultTokenAccount, 'confirmed');
+    return { amount: new BN(balance.value.amount), uiAmount: Number(balance.value.uiAmount || 0) };
+};
+
 export const useVault = (): UseVaultReturn => {
     console.log('[useVault] === HOOK CALL START ===');
 
     // AppKit hooks (wallet info only)
     const { address, isConnected } = useAppKitAccount();
     const { walletProvider } = useAppKitProvider<AnchorWallet>('solana');
-    const [transactionState, setTransactionState] = useState<TransactionState>({
-        status: TransactionStatus.IDLE,
-        signature: null,
-        error: null,
-        message: ''
-    });
 
     // Network store (read-only)
     const { connection, currentNetwork, isSolanaNetwork, isReady: isNetworkReady } = useNetworkStore();
+    const feeTier = useSettingsStore(selectFeeTier);
+    const setLastFeeEstimate = useSettingsStore((state) => state.setLastFeeEstimate);
 
     // Vault store (read-only)
     const {
         program,
         vault,
+        vaults: vaultMap,
+        selectedVaultKey,
+        vaultBalance,
         selectedNFTPosition,
         allUserPositions,
         loading,
         userPositionLoading,
+        portfolioLoading,
+        closeSummary,
+        transactionState,
         error,
         setProgram,
         setVault,
+        setVaults,
+        setSelectedVault,
+        setVaultBalance,
         updateUserPositionForNFT,
         setUserPositionLoading,
+        setUserPositions,
+        setPortfolioLoading,
+        clearSelectedNFTPosition,
         clearUserPositions,
+        setCloseSummary,
+        setTransactionState,
         setLoading,
         setError,
     } = useVaultStore();
@@ -138,9 +196,17 @@ export const useVault = (): UseVaultReturn => {
 
     const { selectedNFT } = useNFTSelection();
 
+    // Identity NFTs discovered by useUniqueId
+    const userNFTs = useUniqueIdStore(selectUserNFTs);
+
+    const vaults = useMemo(() => Object.values(vaultMap), [vaultMap]);
+    const selectedVault = selectedVaultKey ? vaultMap[selectedVaultKey] ?? null : null;
+
     console.log('[useVault] Store state:', {
         hasProgram: !!program,
         hasVault: !!vault,
+        vaultCount: vaults.length,
+        selectedVaultKey,
         userPositionsCount: allUserPositions.length,
         selectedVaultNFT: selectedNFTPosition?.nftMint?.toBase58(),
         loading,
@@ -151,9 +217,67 @@ export const useVault = (): UseVaultReturn => {
     const hasInitializedProgram = useRef(false);
     const hasLoadedVaultData = useRef(false);
     const isLoadingUserPosition = useRef(false);
+    const isLoadingPortfolio = useRef(false);
 
     // Derived state
     const hasRequiredSelections = !!(selectedTokenMint && selectedTokenAccount && selectedNFT);
+    const isVaultOwner = VaultUtils.isVaultOwner(address);
+
+    // Clock for projecting interest accrual between on-chain updates
+    const [now, setNow] = useState(nowInSeconds);
+    useEffect(() => {
+        const interval = setInterval(() => setNow(nowInSeconds()), 15_000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const vaultMetrics = useMemo(
+        () => (vault && vaultBalance ? getVaultMetrics(vault, vaultBalance.amount, now) : null),
+        [vault, vaultBalance, now]
+    );
+
+    // Share balance of the selected NFT, as BN for exact preview math
+    const currentShares = useMemo(
+        () => selectedNFTPosition?.shares ?? new BN(0),
+        [selectedNFTPosition]
+    );
+
+    const previewDeposit = useCallback((amount: BN): VaultPreview | null => {
+        if (!vault || !vaultBalance) return null;
+        return previewDepositMath(vault, vaultBalance.amount, amount, currentShares, nowInSeconds());
+    }, [vault, vaultBalance, currentShares]);
+
+    const previewWithdraw = useCallback((shares: BN): VaultPreview | null => {
+        if (!vault || !vaultBalance) return null;
+        return previewWithdrawMath(vault, vaultBalance.amount, shares, currentShares, nowInSeconds());
+    }, [vault, vaultBalance, currentShares]);
+
+    const previewWithdrawAssets = useCallback((assets: BN): VaultPreview | null => {
+        if (!vault || !vaultBalance) return null;
+        return previewWithdrawAssetsMath(vault, vaultBalance.amount, assets, currentShares, nowInSeconds());
+    }, [vault, vaultBalance, currentShares]);
+
+    // The vault's cash, needed for total assets and position values
+    const fetchVaultBalance = useCallback(async (vaultRef: VaultRef): Promise<VaultBalance | null> => {
+        if (!connection) return null;
+
+        const balance = await connection.getTokenAccountBalance(
+            VaultUtils.getVaultTokenAccount(vaultRef.assetMint, vaultRef.owner, vaultRef.version)
+        );
+        const result: VaultBalance = {
+            amount: new BN(balance.value.amount),
+            decimals: balance.value.decimals,
+        };
+        setVaultBalance(result);
+        return result;
+    }, [connection, setVaultBalance]);
+
+    // Load the cash balance whenever the selected vault changes
+    useEffect(() => {
+        if (!selectedVault) return;
+        fetchVaultBalance(selectedVault).catch((err) => {
+            console.warn('[useVault] Could not fetch vault balance:', err);
+        });
+    }, [selectedVault, fetchVaultBalance]);
 
     // Network change effect - resets loading flags only
     useEffect(() => {
@@ -162,7 +286,11 @@ export const useVault = (): UseVaultReturn => {
                 hasInitializedProgram.current = false;
                 hasLoadedVaultData.current = false;
                 isLoadingUserPosition.current = false;
+                isLoadingPortfolio.current = false;
                 clearUserPositions();
+            } else if (state.connection !== prevState?.connection) {
+                // Same cluster on another RPC endpoint - rebuild the provider, keep the data
+                hasInitializedProgram.current = false;
             }
         });
         return unsubscribe;
@@ -194,7 +322,7 @@ export const useVault = (): UseVaultReturn => {
                 );
 
                 const programInstance = new Program<SimpleVault>(
-                    IDL as SimpleVault,
+                    withProgramAddress(IDL as SimpleVault, CONFIG.VAULT_PROGRAM_ID),
                     provider
                 );
 
@@ -212,47 +340,59 @@ export const useVault = (): UseVaultReturn => {
 
     }, [connection, address, walletProvider, isNetworkReady, isSolanaNetwork, setProgram, setError]);
 
-    // Vault data loading effect - ONLY loads vault data when program is ready
-    useEffect(() => {
-        const loadVaultData = async () => {
-            if (hasLoadedVaultData.current) {
-                return;
-            }
+    // Discover every vault via getProgramAccounts on the Vault discriminator
+    const discoverVaults = useCallback(async () => {
+        if (!program || !address || !connection) {
+            return;
+        }
 
-            if (!program || !address || !connection) {
-                return;
-            }
+        try {
+            setLoading(true);
 
-            try {
-                hasLoadedVaultData.current = true;
-                setLoading(true);
+            console.log('[useVault] Discovering vaults for program:', program.programId.toBase58());
+            const vaultAccounts = await program.account.vault.all();
 
-                // Use derived vault PDA instead of hardcoded
-               
-                const [vaultPda] = VaultUtils.getVaultPDA();
+            const discovered: DiscoveredVault[] = [];
+            vaultAccounts.forEach(({ publicKey, account }) => {
+                const version = VaultUtils.matchVaultVersion(publicKey, account.assetMint, account.owner);
+                if (!version) {
+                    console.warn('[useVault] Skipping vault with unknown seed version:', {
+                        vault: publicKey.toBase58(),
+                        knownVersions: CONFIG.VAULT_VERSIONS
+                    });
+                    return;
+                }
 
-                console.log('[useVault] Loading vault data from derived PDA:', vaultPda.toBase58());
-                const vaultAccount = await program.account.vault.fetchNullable(vaultPda);
+                discovered.push({
+                    key: VaultUtils.getVaultKey(account.assetMint, version),
+                    address: publicKey,
+                    version,
+                    assetMint: account.assetMint,
+                    owner: account.owner,
+                    shareMint: account.shareMint,
+                    data: account,
+                });
+            });
 
-                if (vaultAccount) {
-                    setVault(vaultAccount);
-                } else {
-                    setVault(null);
-                }
+            console.log('[useVault] Discovered vaults:', discovered.map((v) => v.key));
+            setVaults(discovered);
 
-            } catch (err) {
-                setError(`Failed to load vault data: ${(err as Error).message}`);
-                hasLoadedVaultData.current = false;
-            } finally {
-                setLoading(false);
-            }
-        };
+        } catch (err) {
+            setError(`Failed to load vault data: ${(err as Error).message}`);
+            hasLoadedVaultData.current = false;
+        } finally {
+            setLoading(false);
+        }
+    }, [program, address, connection, setVaults, setLoading, setError]);
 
+    // Vault data loading effect - discovers vaults once the program is ready;
+    // later changes arrive through useAccountSubscriptions
+    useEffect(() => {
         if (program && address && connection && !hasLoadedVaultData.current && !loading) {
-            loadVaultData();
+            hasLoadedVaultData.current = true;
+            discoverVaults();
         }
-
-    }, [program, address, connection, setVault, setLoading, setError, loading]);
+    }, [program, address, connection, loading, discoverVaults]);
 
     // User position loading effect - ONLY loads when NFT selection changes
     useEffect(() => {
@@ -262,7 +402,7 @@ export const useVault = (): UseVaultReturn => {
                 return;
             }
 
-            if (!vault || !address || !program || !connection) {
+            if (!vault || !selectedVault || !address || !program || !connection) {
                 console.log('[useVault] Missing requirements for user position loading');
                 return;
             }
@@ -274,7 +414,7 @@ export const useVault = (): UseVaultReturn => {
                 const userPublicKey = new PublicKey(address);
                 
                 // Use derived accounts from VaultUtils
-                const derivedAccounts = VaultUtils.getDerivedAccountsForUser(userPublicKey, nftMint);
+                const derivedAccounts = VaultUtils.getDerivedAccountsForUser(userPublicKey, nftMint, selectedVault);
 
                 console.log('[useVault] Derived accounts for user position:', {
                     userInfoPda: derivedAccounts.userInfoPda.toBase58(),
@@ -286,17 +426,16 @@ export const useVault = (): UseVaultReturn => {
                 const userInfo = await program.account.userInfo.fetchNullable(derivedAccounts.userInfoPda);
 
                 if (userInfo) {
-                    // Calculate deposit amount based on current vault state
+                    // Value the shares against total assets (cash + borrowed - reserves)
                     let depositAmount = Number(userInfo.shares);
-                    if (vault.totalShares > 0) {
+                    if (!vault.totalShares.isZero()) {
                         try {
-                            const totalAssets = await connection.getTokenAccountBalance(
-                                derivedAccounts.vaultTokenAccount
-                            );
-                            const vaultBalance = Number(totalAssets.value.uiAmount || 0);
-
-                            if (vaultBalance > 0) {
-                                depositAmount = (Number(userInfo.shares) * vaultBalance) / Number(vault.totalShares);
+                            const balance = await fetchVaultBalance(selectedVault);
+                            if (balance) {
+                                depositAmount = toUiAmount(
+                                    getPositionValue(userInfo.shares, vault, balance.amount),
+                                    balance.decimals
+                                );
                             }
                         } catch (err) {
                             console.warn('[useVault] Could not fetch vault balance for calculation:', err);
@@ -307,6 +446,7 @@ export const useVault = (): UseVaultReturn => {
                         user: userPublicKey,
                         nftMint: nftMint,
                         depositAmount,
+                        shares: userInfo.shares,
                         shareAmount: Number(userInfo.shares),
                         timestamp: userInfo.lastUpdate * 1000
                     };
@@ -325,40 +465,120 @@ export const useVault = (): UseVaultReturn => {
             }
         };
 
-        if (selectedNFT && vault && program && address && connection && !userPositionLoading) {
+        if (selectedNFT && vault && selectedVault && program && address && connection && !userPositionLoading) {
             loadUserPosition(selectedNFT);
         } else if (!selectedNFT) {
-            console.log('[useVault] No NFT selected - clearing user positions');
-            clearUserPositions();
+            // Keep the portfolio; only the selected position goes away
+            console.log('[useVault] No NFT selected - clearing selected position');
+            clearSelectedNFTPosition();
         }
 
-    }, [selectedNFT, vault, program, address, connection, updateUserPositionForNFT, setUserPositionLoading, clearUserPositions]);
+    }, [selectedNFT, vault, selectedVault, program, address, connection, fetchVaultBalance, updateUserPositionForNFT, setUserPositionLoading, clearSelectedNFTPosition]);
 
-    // Action functions
-    const refreshVaultData = useCallback(() => {
-        if (program && address && connection) {
-            hasLoadedVaultData.current = false;
-            // The effect will automatically trigger
+    // Portfolio loader - one UserInfo per owned identity NFT, fetched in a single batch
+    const loadAllUserPositions = useCallback(async (): Promise<UserPosition[]> => {
+        if (isLoadingPortfolio.current) {
+            console.log('[useVault] Portfolio loading already in progress, skipping');
+            return [];
         }
-    }, [program, address, connection]);
 
-    const refreshUserPosition = useCallback(() => {
-        if (selectedNFT && vault && program && address && connection) {
-            isLoadingUserPosition.current = false;
-            // The effect will automatically trigger
+        if (!selectedVault || !address || !program || !connection) {
+            console.log('[useVault] Missing requirements for portfolio loading');
+            return [];
         }
-    }, [selectedNFT, vault, program, address, connection]);
 
-    const refreshAllData = useCallback(() => {
-        hasLoadedVaultData.current = false;
-        isLoadingUserPosition.current = false;
-        // The effects will automatically trigger
-    }, []);
+        try {
+            isLoadingPortfolio.current = true;
+            setPortfolioLoading(true);
+
+            const userPublicKey = new PublicKey(address);
+            const derived = userNFTs.map((nft) => ({
+                nftMint: nft.mint,
+                accounts: VaultUtils.getDerivedAccountsForUser(userPublicKey, nft.mint, selectedVault),
+            }));
+
+            // getMultipleAccountsInfo accepts at most 100 keys per call
+            const infos: (AccountInfo<Buffer> | null)[] = [];
+            for (let i = 0; i < derived.length; i += 100) {
+                const chunk = derived.slice(i, i + 100).map((d) => d.accounts.userInfoPda);
+                infos.push(...await connection.getMultipleAccountsInfo(chunk));
+            }
+
+            // Same share -> asset conversion as the single-position loader
+            let balance: VaultBalance | null = null;
+            if (!selectedVault.data.totalShares.isZero()) {
+                try {
+                    balance = await fetchVaultBalance(selectedVault);
+                } catch (err) {
+                    console.warn('[useVault] Could not fetch vault balance for portfolio:', err);
+                }
+            }
+
+            const positions: UserPosition[] = [];
+            infos.forEach((info, index) => {
+                if (!info) return;
+
+                const userInfo = program.coder.accounts.decode('userInfo', info.data);
+                const shareAmount = Number(userInfo.shares);
+                const depositAmount = balance
+                    ? toUiAmount(getPositionValue(userInfo.shares, selectedVault.data, balance.amount), balance.decimals)
+                    : shareAmount;
+
+                positions.push({
+                    user: userPublicKey,
+                    nftMint: derived[index].nftMint,
+                    depositAmount,
+                    shares: userInfo.shares,
+                    shareAmount,
+                    timestamp: Number(userInfo.lastUpdate) * 1000
+                });
+            });
+
+            console.log('[useVault] Portfolio loaded:', {
+                nftCount: derived.length,
+                positionCount: positions.length
+            });
+
+            setUserPositions(positions);
+            return positions;
+
+        } catch (err) {
+            console.error('[useVault] Error loading portfolio:', err);
+            setError(`Failed to load positions: ${(err as Error).message}`);
+            return [];
+        } finally {
+            isLoadingPortfolio.current = false;
+            setPortfolioLoading(false);
+        }
+    }, [selectedVault, address, program, connection, userNFTs, fetchVaultBalance, setUserPositions, setPortfolioLoading, setError]);
+
+    // Reload the portfolio when the owned NFTs or the selected vault change
+    useEffect(() => {
+        if (selectedVault && program && address && connection) {
+            loadAllUserPositions();
+        }
+    }, [selectedVault, program, address, connection, loadAllUserPositions]);
+
+    // Action functions - explicit reloads for accounts no subscription covers,
+    // e.g. a vault that was just created or closed
+    const refreshVaultData = useCallback(async () => {
+        await discoverVaults();
+    }, [discoverVaults]);
+
+    const refreshUserPosition = useCallback(async () => {
+        await loadAllUserPositions();
+    }, [loadAllUserPositions]);
+
+    const refreshAllData = useCallback(async () => {
+        await discoverVaults();
+        await loadAllUserPositions();
+    }, [discoverVaults, loadAllUserPositions]);
 
     // PDA Validation helper
     const validatePDADerivations = useCallback(async (
         userWallet: PublicKey,
-        userNftMint: PublicKey
+        userNftMint: PublicKey,
+        vaultRef: VaultRef
     ): Promise<PDAValidationResult> => {
         console.log('[PDAValidation] === VALIDATING PDA DERIVATIONS ===');
 
@@ -378,7 +598,7 @@ export const useVault = (): UseVaultReturn => {
 
         try {
             // Use VaultUtils to get all derived accounts
-            const derivedAccounts = VaultUtils.getDerivedAccountsForUser(userWallet, userNftMint);
+            const derivedAccounts = VaultUtils.getDerivedAccountsForUser(userWallet, userNftMint, vaultRef);
 
             console.log('[PDAValidation] Derived accounts:', {
                 vaultPda: derivedAccounts.vaultPda.toBase58(),
@@ -475,14 +695,14 @@ export const useVault = (): UseVaultReturn => {
             userNftMint: userNftMint.toBase58()
         });
 
-        if (!program || !address || !connection) {
-            const error = 'Missing program, address, or connection for deposit';
+        if (!program || !address || !connection || !walletProvider || !selectedVault) {
+            const error = 'Missing program, wallet, connection or selected vault for deposit';
             console.error('[useVault] Deposit failed:', error);
 
             setTransactionState({
                 status: TransactionStatus.FAILED,
                 signature: null,
-                error: 'Connection error',
+                error: { program: 'network', code: null, name: 'NotConnected', userMessage: 'Wallet not connected or program not loaded' },
                 message: 'Wallet not connected or program not loaded'
             });
 
@@ -502,8 +722,13 @@ export const useVault = (): UseVaultReturn => {
 
             const userWallet = new PublicKey(address);
 
-            // Use VaultUtils to derive all accounts - no more hardcoded values!
-            const accounts = VaultUtils.getDerivedAccountsForUser(userWallet, userNftMint);
+            // The program would reject a mismatched mint; fail before asking for a signature
+            if (!assetMint.equals(selectedVault.assetMint)) {
+                throw new Error(`Selected token ${assetMint.toBase58()} is not the asset of vault ${selectedVault.key}`);
+            }
+
+            // Derive all accounts from the selected vault rather than the env defaults
+            const accounts = VaultUtils.getDerivedAccountsForUser(userWallet, userNftMint, selectedVault);
 
             console.log('[useVault] Derived accounts for deposit:', {
                 vaultPda: accounts.vaultPda.toBase58(),
@@ -517,7 +742,7 @@ export const useVault = (): UseVaultReturn => {
             });
 
             // Validate PDA derivations
-            const validation = await validatePDADerivations(userWallet, userNftMint);
+            const validation = await validatePDADerivations(userWallet, userNftMint, selectedVault);
 
             if (!validation.isValid) {
                 console.error('[useVault] PDA validation failed:', validation.errors);
@@ -528,62 +753,108 @@ export const useVault = (): UseVaultReturn => {
                 console.warn('[useVault] PDA validation warnings:', validation.warnings);
             }
 
+            const builder = program.methods
+                .deposit(amount)
+                // Pass the seed-derived accounts too: the IDL resolves them with a fixed version
+                .accountsPartial({
+                    user: userWallet,
+                    vault: accounts.vaultPda,
+                    nftCollection: accounts.collectionPda,
+                    userNftToken: accounts.userNftTokenAccount,
+                    userNftMint: userNftMint,
+                    assetMint: selectedVault.assetMint,
+                    userAssetToken: accounts.userAssetTokenAccount,
+                    vaultTokenAccount: accounts.vaultTokenAccount,
+                    shareMint: selectedVault.shareMint,
+                    userSharePda: accounts.userSharesPda,
+                    userShareToken: accounts.userShareTokenAccount,
+                    nftInfo: accounts.userInfoPda,
+                });
+
+            // Simulate first so a failing deposit never reaches the wallet
+            setTransactionState({
+                status: TransactionStatus.SIMULATING,
+                signature: null,
+                error: null,
+                message: 'Simulating transaction...'
+            });
+
+            const prepared = await prepareTransaction(connection, userWallet, [await builder.instruction()], feeTier);
+            const { simulation } = prepared;
+            setLastFeeEstimate(prepared.feeEstimate);
+
+            if (!simulation.success) {
+                console.error('[useVault] Deposit simulation failed:', simulation.error);
+
+                setTransactionState({
+                    status: TransactionStatus.FAILED,
+                    signature: null,
+                    error: simulation.error,
+                    message: `Simulation failed: ${simulation.error?.userMessage ?? 'unknown error'}`,
+                    simulation
+                });
+
+                // Reset to idle after showing error
+                setTimeout(() => {
+                    setTransactionState({
+                        status: TransactionStatus.IDLE,
+                        signature: null,
+                        error: null,
+                        message: ''
+                    });
+                }, 5000);
+
+                console.log('[useVault] === DEPOSIT END (SIMULATION FAILED) ===');
+                return null;
+            }
+
             // Update state to signing
             setTransactionState({
                 status: TransactionStatus.SIGNING,
                 signature: null,
                 error: null,
-                message: 'Please sign the transaction in your wallet...'
+                message: 'Please sign the transaction in your wallet...',
+                simulation
             });
 
             console.log('[useVault] Executing deposit transaction...');
 
             // Execute transaction with derived accounts
-            const tx = await program.methods
-                .deposit(amount)
-                .accounts({
-                    user: userWallet,
-                    vault: accounts.vaultPda,
-                    nftCollection: accounts.collectionPda,
-                    userNftToken: accounts.userNftTokenAccount,
-                    userNftMint: userNftMint,
-                    assetMint: assetMint,
-                    vaultTokenAccount: accounts.vaultTokenAccount,
-                    shareMint: CONFIG.SHARE_MINT,
-                })
-                .rpc();
+            const tx = await sendTrackedTransaction(
+                connection,
+                walletProvider,
+                await builder.preInstructions(prepared.computeBudgetInstructions).transaction(),
+                { label: 'Deposit' }
+            );
 
             // Update state to confirming
             setTransactionState({
                 status: TransactionStatus.CONFIRMING,
                 signature: tx,
                 error: null,
-                message: 'Transaction sent, waiting for network confirmation...'
+                message: 'Transaction sent, waiting for network confirmation...',
+                simulation
             });
 
             console.log('[useVault] Transaction sent:', tx);
 
-            // Wait for confirmation
+            // Wait for the tracker to confirm it (rebroadcasts until the blockhash expires)
             try {
-                const confirmation = await connection.confirmTransaction(tx, 'confirmed');
-
-                if (confirmation.value.err) {
-                    throw new Error(`Transaction failed during confirmation: ${confirmation.value.err}`);
-                }
+                await confirmTrackedTransaction(tx);
 
                 // Success state
                 setTransactionState({
                     status: TransactionStatus.SUCCESS,
                     signature: tx,
                     error: null,
-                    message: 'Deposit successful! Transaction confirmed on network.'
+                    message: 'Deposit successful! Transaction confirmed on network.',
+                    simulation
                 });
 
                 console.log('[useVault] Transaction confirmed successfully');
 
-                // Schedule data refresh and final success message
+                // Account subscriptions deliver the new balances; follow up with the final message
                 setTimeout(() => {
-                    refreshAllData();
                     setTransactionState({
                         status: TransactionStatus.SUCCESS,
                         signature: tx,
@@ -611,8 +882,8 @@ export const useVault = (): UseVaultReturn => {
                 setTransactionState({
                     status: TransactionStatus.FAILED,
                     signature: tx,
-                    error: `Confirmation failed: ${(confirmError as Error).message}`,
-                    message: 'Transaction was sent but network confirmation failed. Check the transaction status manually.'
+                    error: decodeProgramError(confirmError),
+                    message: 'Transaction was sent but did not confirm. Check the recent transactions list for its status.'
                 });
 
                 // Reset to idle after showing error
@@ -631,33 +902,14 @@ export const useVault = (): UseVaultReturn => {
         } catch (err) {
             console.error('[useVault] Deposit error:', err);
 
-            let errorMessage = 'Transaction failed';
-            let userMessage = 'An unexpected error occurred';
-
-            if (err instanceof Error) {
-                if (err.message.includes('User rejected') || err.message.includes('rejected')) {
-                    errorMessage = 'Transaction cancelled';
-                    userMessage = 'Transaction was cancelled by user';
-                } else if (err.message.includes('already been processed')) {
-                    errorMessage = 'Duplicate transaction';
-                    userMessage = 'This transaction has already been processed';
-                } else if (err.message.includes('insufficient funds')) {
-                    errorMessage = 'Insufficient funds';
-                    userMessage = 'Insufficient funds to complete the transaction';
-                } else if (err.message.includes('overflow')) {
-                    errorMessage = 'Amount too large';
-                    userMessage = 'Transaction amount causes mathematical overflow. Try a smaller amount.';
-                } else {
-                    errorMessage = err.message;
-                    userMessage = `Transaction failed: ${err.message}`;
-                }
-            }
+            const decoded = decodeProgramError(err);
+            console.log('[useVault] Decoded deposit error:', decoded);
 
             setTransactionState({
                 status: TransactionStatus.FAILED,
                 signature: null,
-                error: errorMessage,
-                message: userMessage
+                error: decoded,
+                message: decoded.userMessage
             });
 
             // Reset to idle after showing error
@@ -675,7 +927,7 @@ export const useVault = (): UseVaultReturn => {
         } finally {
             setLoading(false);
         }
-    }, [program, address, connection, selectedTokenAccount, setLoading, refreshAllData, validatePDADerivations]);
+    }, [program, address, connection, walletProvider, selectedVault, feeTier, setTransactionState, setLoading, setLastFeeEstimate, validatePDADerivations]);
 
     const withdraw = useCallback(async (
         shares: BN,
@@ -689,14 +941,14 @@ export const useVault = (): UseVaultReturn => {
             userNftMint: userNftMint.toBase58()
         });
 
-        if (!program || !address || !connection) {
-            const error = 'Missing program, address, or connection for withdraw';
+        if (!program || !address || !connection || !walletProvider || !selectedVault) {
+            const error = 'Missing program, wallet, connection or selected vault for withdraw';
             console.error('[useVault] Withdraw failed:', error);
 
             setTransactionState({
                 status: TransactionStatus.FAILED,
                 signature: null,
-                error: 'Connection error',
+                error: { program: 'network', code: null, name: 'NotConnected', userMessage: 'Wallet not connected or program not loaded' },
                 message: 'Wallet not connected or program not loaded'
             });
 
@@ -716,8 +968,12 @@ export const useVault = (): UseVaultReturn => {
 
             const userWallet = new PublicKey(address);
 
-            // Use VaultUtils to derive all accounts - same as deposit!
-            const accounts = VaultUtils.getDerivedAccountsForUser(userWallet, userNftMint);
+            if (!assetMint.equals(selectedVault.assetMint)) {
+                throw new Error(`Selected token ${assetMint.toBase58()} is not the asset of vault ${selectedVault.key}`);
+            }
+
+            // Derive all accounts from the selected vault - same as deposit!
+            const accounts = VaultUtils.getDerivedAccountsForUser(userWallet, userNftMint, selectedVault);
 
             console.log('[useVault] Derived accounts for withdraw:', {
                 vaultPda: accounts.vaultPda.toBase58(),
@@ -731,7 +987,7 @@ export const useVault = (): UseVaultReturn => {
             });
 
             // Validate PDA derivations
-            const validation = await validatePDADerivations(userWallet, userNftMint);
+            const validation = await validatePDADerivations(userWallet, userNftMint, selectedVault);
 
             if (!validation.isValid) {
                 console.error('[useVault] PDA validation failed:', validation.errors);
@@ -743,20 +999,98 @@ export const useVault = (): UseVaultReturn => {
             }
 
             // Validate user has enough shares
+            let availableShares: BN;
             try {
                 const shareTokenInfo = await connection.getTokenAccountBalance(accounts.userShareTokenAccount);
-                const availableShares = new BN(shareTokenInfo.value.amount);
+                availableShares = new BN(shareTokenInfo.value.amount);
+            } catch (err) {
+                throw new Error(`Cannot validate share balance: ${(err as Error).message}`);
+            }
 
-                console.log('[useVault] Share balance check:', {
-                    requestedShares: shares.toString(),
-                    availableShares: availableShares.toString()
+            console.log('[useVault] Share balance check:', {
+                requestedShares: shares.toString(),
+                availableShares: availableShares.toString()
+            });
+
+            // Surface the same error the program would raise, without paying for a failed tx
+            if (availableShares.lt(shares)) {
+                const insufficient = getProgramError('simple_vault', 6002);
+                setTransactionState({
+                    status: TransactionStatus.FAILED,
+                    signature: null,
+                    error: insufficient,
+                    message: `${insufficient.userMessage} Available: ${availableShares.toString()}, requested: ${shares.toString()}`
                 });
+                setError(insufficient.userMessage);
 
-                if (availableShares.lt(shares)) {
-                    throw new Error(`Insufficient shares. Available: ${availableShares.toString()}, Requested: ${shares.toString()}`);
-                }
-            } catch (err) {
-                throw new Error(`Cannot validate share balance: ${(err as Error).message}`);
+                // Reset to idle after showing error
+                setTimeout(() => {
+                    setTransactionState({
+                        status: TransactionStatus.IDLE,
+                        signature: null,
+                        error: null,
+                        message: ''
+                    });
+                }, 5000);
+
+                console.log('[useVault] === WITHDRAW END (INSUFFICIENT SHARES) ===');
+                return null;
+            }
+
+            const builder = program.methods
+                .withdraw(shares)
+                // Pass the seed-derived accounts too: the IDL resolves them with a fixed version
+                .accountsPartial({
+                    user: userWallet,
+                    vault: accounts.vaultPda,
+                    nftCollection: accounts.collectionPda,
+                    userNftToken: accounts.userNftTokenAccount,
+                    userNftMint: userNftMint,
+                    assetMint: selectedVault.assetMint,
+                    userAssetToken: accounts.userAssetTokenAccount,
+                    vaultTokenAccount: accounts.vaultTokenAccount,
+                    shareMint: selectedVault.shareMint,
+                    userSharePda: accounts.userSharesPda,
+                    userShareToken: accounts.userShareTokenAccount,
+                    nftInfo: accounts.userInfoPda,
+                });
+
+            // Simulate first so a failing withdraw never reaches the wallet
+            setTransactionState({
+                status: TransactionStatus.SIMULATING,
+                signature: null,
+                error: null,
+                message: 'Simulating withdraw transaction...'
+            });
+
+            const prepared = await prepareTransaction(connection, userWallet, [await builder.instruction()], feeTier);
+            const { simulation } = prepared;
+            setLastFeeEstimate(prepared.feeEstimate);
+
+            if (!simulation.success) {
+                console.error('[useVault] Withdraw simulation failed:', simulation.error);
+
+                setTransactionState({
+                    status: TransactionStatus.FAILED,
+                    signature: null,
+                    error: simulation.error,
+                    message: `Simulation failed: ${simulation.error?.userMessage ?? 'unknown error'}`,
+                    simulation
+                });
+                setError(simulation.error?.userMessage ?? 'Withdraw simulation failed');
+
+                // Reset to idle after showing error
+                setTimeout(() => {
+                    setTransactionState({
+                        status: TransactionStatus.IDLE,
+                        signature: null,
+                        error: null,
+                        message: ''
+                    });
+                }, 5000);
+
+                console.log('[useVault] === WITHDRAW END (SIMULATION FAILED) ===');
+                return null;
             }
 
             // Update state to signing
@@ -764,25 +1098,19 @@ export const useVault = (): UseVaultReturn => {
                 status: TransactionStatus.SIGNING,
                 signature: null,
                 error: null,
-                message: 'Please sign the withdraw transaction in your wallet...'
+                message: 'Please sign the withdraw transaction in your wallet...',
+                simulation
             });
 
             console.log('[useVault] Executing withdraw transaction...');
 
             // Execute withdraw transaction with derived accounts
-            const tx = await program.methods
-                .withdraw(shares)
-                .accounts({
-                    user: userWallet,
-                    vault: accounts.vaultPda,
-                    nftCollection: accounts.collectionPda,
-                    userNftToken: accounts.userNftTokenAccount,
-                    userNftMint: userNftMint,
-                    assetMint: assetMint,
-                    vaultTokenAccount: accounts.vaultTokenAccount,
-                    shareMint: CONFIG.SHARE_MINT,
-                })
-                .rpc();
+            const tx = await sendTrackedTransaction(
+                connection,
+                walletProvider,
+                await builder.preInstructions(prepared.computeBudgetInstructions).transaction(),
+                { label: 'Withdraw' }
+            );
 
             console.log('[useVault] Withdraw transaction sent:', tx);
 
@@ -791,11 +1119,12 @@ export const useVault = (): UseVaultReturn => {
                 status: TransactionStatus.CONFIRMING,
                 signature: tx,
                 error: null,
-                message: 'Transaction sent! Waiting for confirmation...'
+                message: 'Transaction sent! Waiting for confirmation...',
+                simulation
             });
 
-            // Wait for confirmation
-            await connection.confirmTransaction(tx, 'confirmed');
+            // Wait for the tracker to confirm it (rebroadcasts until the blockhash expires)
+            await confirmTrackedTransaction(tx);
 
             console.log('[useVault] Withdraw transaction confirmed!');
 
@@ -804,34 +1133,270 @@ export const useVault = (): UseVaultReturn => {
                 status: TransactionStatus.SUCCESS,
                 signature: tx,
                 error: null,
-                message: 'Withdraw completed successfully!'
+                message: 'Withdraw completed successfully!',
+                simulation
             });
 
-            // Refresh data after success
-            console.log('[useVault] Refreshing data after successful withdraw...');
-            refreshAllData();
+            // Reset to idle after showing success
+            setTimeout(() => {
+                setTransactionState({
+                    status: TransactionStatus.IDLE,
+                    signature: null,
+                    error: null,
+                    message: ''
+                });
+            }, 3000);
 
             console.log('[useVault] === WITHDRAW END (SUCCESS) ===');
             return tx;
 
         } catch (err) {
-            const error = `Withdraw failed: ${(err as Error).message}`;
             console.error('[useVault] Withdraw error:', err);
 
+            const decoded = decodeProgramError(err);
+            console.log('[useVault] Decoded withdraw error:', decoded);
+
             setTransactionState({
                 status: TransactionStatus.FAILED,
                 signature: null,
-                error: error,
-                message: 'Withdraw transaction failed'
+                error: decoded,
+                message: decoded.userMessage
             });
 
-            setError(error);
+            setError(decoded.userMessage);
+
+            // Reset to idle after showing error
+            setTimeout(() => {
+                setTransactionState({
+                    status: TransactionStatus.IDLE,
+                    signature: null,
+                    error: null,
+                    message: ''
+                });
+            }, 5000);
+
             console.log('[useVault] === WITHDRAW END (ERROR) ===');
             return null;
         } finally {
             setLoading(false);
         }
-    }, [program, address, connection, selectedTokenAccount, setError, setLoading, refreshAllData, validatePDADerivations]);
+    }, [program, address, connection, walletProvider, selectedVault, feeTier, setTransactionState, setError, setLoading, setLastFeeEstimate, validatePDADerivations]);
+
+    // Owner-only: create a new vault for the given asset mint
+    const initializeVault = useCallback(async (
+        assetMint: PublicKey,
+        nftCollectionAddress: PublicKey
+    ): Promise<string | null> => {
+        console.log('[useVault] === INITIALIZE VAULT START ===');
+
+        if (!program || !address || !connection || !walletProvider) {
+            setError('Program not initialized or wallet not connected');
+            return null;
+        }
+
+        if (!isVaultOwner) {
+            setError(`Only the vault owner (${CONFIG.OWNER_ID.toBase58()}) can initialize vaults`);
+            return null;
+        }
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            const owner = new PublicKey(address);
+            const [vaultPda] = VaultUtils.getVaultPDA(assetMint, owner);
+
+            const existingVault = await program.account.vault.fetchNullable(vaultPda);
+            if (existingVault) {
+                throw new Error(`Vault already exists at ${vaultPda.toBase58()}`);
+            }
+
+            // Share mint is a fresh keypair; the program sets the vault as its authority
+            const shareMintKeypair = Keypair.generate();
+
+            console.log('[useVault] Initializing vault:', {
+                vaultPda: vaultPda.toBase58(),
+                assetMint: assetMint.toBase58(),
+                nftCollection: nftCollectionAddress.toBase58(),
+                shareMint: shareMintKeypair.publicKey.toBase58()
+            });
+
+            const builder = program.methods
+                .initializeVault(nftCollectionAddress)
+                // Pass the seed-derived accounts too: the IDL resolves them with a fixed version
+                .accountsPartial({
+                    owner,
+                    assetMint,
+                    vault: vaultPda,
+                    shareMint: shareMintKeypair.publicKey,
+                    vaultTokenAccount: VaultUtils.getVaultTokenAccount(assetMint, owner),
+                });
+
+            const prepared = await prepareTransaction(connection, owner, [await builder.instruction()], feeTier);
+            setLastFeeEstimate(prepared.feeEstimate);
+
+            if (!prepared.simulation.success) {
+                console.error('[useVault] Initialize vault simulation failed:', prepared.simulation.error);
+                setError(`Failed to initialize vault: ${prepared.simulation.error?.userMessage ?? 'simulation failed'}`);
+                return null;
+            }
+
+            const tx = await sendTrackedTransaction(
+                connection,
+                walletProvider,
+                await builder.preInstructions(prepared.computeBudgetInstructions).transaction(),
+                { label: 'Initialize Vault', signers: [shareMintKeypair] }
+            );
+            await confirmTrackedTransaction(tx);
+
+            console.log('[useVault] Vault initialized:', tx);
+
+            refreshVaultData();
+            return tx;
+        } catch (err) {
+            console.error('[useVault] Initialize vault error:', err);
+            setError(`Failed to initialize vault: ${decodeProgramError(err).userMessage}`);
+            return null;
+        } finally {
+            setLoading(false);
+        }
+    }, [program, address, connection, walletProvider, isVaultOwner, feeTier, refreshVaultData, setLoading, setError, setLastFeeEstimate]);
+
+    // Owner-only: fetch what is left in a vault before closing it
+    const loadCloseSummary = useCallback(async (assetMint: PublicKey): Promise<VaultCloseSummary | null> => {
+        if (!program || !connection || !address) {
+            setCloseSummary(null);
+            return null;
+        }
+
+        try {
+            const owner = new PublicKey(address);
+            const [vaultPda] = VaultUtils.getVaultPDA(assetMint, owner);
+            const vaultTokenAccount = VaultUtils.getVaultTokenAccount(assetMint, owner);
+
+            const vaultAccount = await program.account.vault.fetchNullable(vaultPda);
+            if (!vaultAccount) {
+                setError(`No vault found at ${vaultPda.toBase58()}`);
+                setCloseSummary(null);
+                return null;
+            }
+
+            let tokenBalance = new BN(0);
+            let uiTokenBalance = 0;
+            let balanceError: string | null = null;
+            try {
+                const balance = await readVaultTokenBalance(connection, vaultTokenAccount);
+                tokenBalance = balance.amount;
+                uiTokenBalance = balance.uiAmount;
+            } catch (err) {
+                console.warn('[useVault] Vault token account not readable:', err);
+                balanceError = `Could not read the vault token balance: ${(err as Error).message}`;
+            }
+
+            const summary: VaultCloseSummary = {
+                vaultPda,
+                assetMint,
+                vaultTokenAccount,
+                totalShares: vaultAccount.totalShares,
+                tokenBalance,
+                uiTokenBalance,
+                balanceError,
+                // close_vault doesn't look at the token account, so this is the only guard
+                canClose: balanceError === null && vaultAccount.totalShares.isZero() && tokenBalance.isZero(),
+            };
+
+            setCloseSummary(summary);
+            return summary;
+        } catch (err) {
+            console.error('[useVault] Close summary error:', err);
+            setError(`Failed to load vault summary: ${(err as Error).message}`);
+            setCloseSummary(null);
+            return null;
+        }
+    }, [program, connection, address, setCloseSummary, setError]);
+
+    // Owner-only: close a vault and reclaim its rent
+    const closeVault = useCallback(async (assetMint: PublicKey): Promise<string | null> => {
+        console.log('[useVault] === CLOSE VAULT START ===');
+
+        if (!program || !address || !connection || !walletProvider) {
+            setError('Program not initialized or wallet not connected');
+            return null;
+        }
+
+        if (!isVaultOwner) {
+            setError(`Only the vault owner (${CONFIG.OWNER_ID.toBase58()}) can close vaults`);
+            return null;
+        }
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            const authority = new PublicKey(address);
+            const [vaultPda] = VaultUtils.getVaultPDA(assetMint, authority);
+
+            // Re-check right before closing: the summary may be stale and the
+            // program won't refuse a vault that still holds tokens
+            const vaultAccount = await program.account.vault.fetchNullable(vaultPda, 'confirmed');
+            if (!vaultAccount) {
+                setError(`No vault found at ${vaultPda.toBase58()}`);
+                return null;
+            }
+            const balance = await readVaultTokenBalance(
+                connection,
+                VaultUtils.getVaultTokenAccount(assetMint, authority)
+            );
+            if (!vaultAccount.totalShares.isZero() || !balance.amount.isZero()) {
+                setError(
+                    `Vault still holds ${vaultAccount.totalShares.toString()} shares and ` +
+                    `${balance.uiAmount.toLocaleString()} tokens; users must withdraw before it can be closed`
+                );
+                return null;
+            }
+
+            const builder = program.methods
+                .closeVault()
+                // Pass the vault too: the IDL resolves it with a fixed version
+                .accountsPartial({
+                    vault: vaultPda,
+                    assetMint,
+                    authority,
+                });
+
+            const prepared = await prepareTransaction(connection, authority, [await builder.instruction()], feeTier);
+            setLastFeeEstimate(prepared.feeEstimate);
+
+            if (!prepared.simulation.success) {
+                console.error('[useVault] Close vault simulation failed:', prepared.simulation.error);
+                setError(`Failed to close vault: ${prepared.simulation.error?.userMessage ?? 'simulation failed'}`);
+                return null;
+            }
+
+            const tx = await sendTrackedTransaction(
+                connection,
+                walletProvider,
+                await builder.preInstructions(prepared.computeBudgetInstructions).transaction(),
+                { label: 'Close Vault' }
+            );
+            await confirmTrackedTransaction(tx);
+
+            console.log('[useVault] Vault closed:', tx);
+
+            setCloseSummary(null);
+            if (selectedVault && vaultPda.equals(selectedVault.address)) {
+                setVault(null);
+            }
+            refreshVaultData();
+            return tx;
+        } catch (err) {
+            console.error('[useVault] Close vault error:', err);
+            setError(`Failed to close vault: ${decodeProgramError(err).userMessage}`);
+            return null;
+        } finally {
+            setLoading(false);
+        }
+    }, [program, address, connection, walletProvider, isVaultOwner, selectedVault, feeTier, refreshVaultData, setVault, setCloseSummary, setLoading, setError, setLastFeeEstimate]);
 
     console.log('[useVault] === HOOK CALL END ===');
 
@@ -839,10 +1404,13 @@ export const useVault = (): UseVaultReturn => {
         // Store state (read-only)
         program,
         vault,
+        vaults,
+        selectedVault,
         selectedNFTPosition,
         allUserPositions,
         loading,
         userPositionLoading,
+        portfolioLoading,
         error,
 
         // Network state (read-only)
@@ -862,13 +1430,27 @@ export const useVault = (): UseVaultReturn => {
         hasRequiredSelections,
 
         // Computed values
+        vaultBalance,
+        vaultMetrics,
         programId: CONFIG.VAULT_PROGRAM_ID.toBase58(),
         vaultConfig: CONFIG,
         transactionState,
 
+        // Owner-only vault lifecycle
+        isVaultOwner,
+        closeSummary,
+        initializeVault,
+        loadCloseSummary,
+        closeVault,
+
         // Actions only
         deposit,
         withdraw,
+        previewDeposit,
+        previewWithdraw,
+        previewWithdrawAssets,
+        setSelectedVault,
+        loadAllUserPositions,
         refreshVaultData,
         refreshUserPosition,
         refreshAllData,
@@ -0,0 +1,212 @@
+import { BN } from '@coral-xyz/anchor';
+
+import type { VaultData } from '@/store/vaultStore';
+
+/**
+ * Fixed-point conventions of the simple_vault program:
+ * - borrowIndex and borrowRate are scaled by 1e9 (INDEX_SCALE); borrowRate is an annual rate
+ * - reserveFactor is in basis points (10_000 = 100% of interest goes to reserves)
+ * - lastUpdateTime is a unix timestamp in seconds
+ */
+export const INDEX_SCALE = new BN(1_000_000_000);
+export const BPS_SCALE = new BN(10_000);
+export const SECONDS_PER_YEAR = 31_536_000;
+
+const ZERO = new BN(0);
+
+export interface AccruedVaultState {
+    totalBorrowed: BN;
+    totalReserves: BN;
+    borrowIndex: BN;
+    // Interest accrued between lastUpdateTime and now
+    pendingInterest: BN;
+}
+
+export interface VaultMetrics {
+    cash: BN;
+    totalAssets: BN;
+    totalShares: BN;
+    // Assets per share, as a plain number for display
+    sharePrice: number;
+    utilization: number;
+    borrowApy: number;
+    supplyApy: number;
+}
+
+// Expected outcome of a deposit or withdrawal, in base units
+export interface VaultPreview {
+    assets: BN;
+    shares: BN;
+    sharePrice: number;
+    // Position of the selected NFT once the transaction lands
+    resultingShares: BN;
+    resultingAssets: BN;
+    // Withdrawals only: the vault lacks the cash to pay out right now
+    exceedsLiquidity: boolean;
+}
+
+export const nowInSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Project the program's interest accrual forward to `now` (simple interest
+ * since the last on-chain update, as the program applies it on the next instruction).
+ */
+export const accrueInterest = (vault: VaultData, now: number = nowInSeconds()): AccruedVaultState => {
+    const elapsed = Math.max(0, now - vault.lastUpdateTime.toNumber());
+    if (elapsed === 0 || vault.borrowRate.isZero()) {
+        return {
+            totalBorrowed: vault.totalBorrowed,
+            totalReserves: vault.totalReserves,
+            borrowIndex: vault.borrowIndex,
+            pendingInterest: ZERO,
+        };
+    }
+
+    const denominator = INDEX_SCALE.muln(SECONDS_PER_YEAR);
+    const pendingInterest = vault.totalBorrowed.mul(vault.borrowRate).muln(elapsed).div(denominator);
+    const indexGrowth = vault.borrowIndex.mul(vault.borrowRate).muln(elapsed).div(denominator);
+
+    return {
+        totalBorrowed: vault.totalBorrowed.add(pendingInterest),
+        totalReserves: vault.totalReserves.add(pendingInterest.mul(vault.reserveFactor).div(BPS_SCALE)),
+        borrowIndex: vault.borrowIndex.add(indexGrowth),
+        pendingInterest,
+    };
+};
+
+// Assets owed to shareholders: cash + borrowed - reserves, never negative
+export const getTotalAssets = (vault: VaultData, cash: BN, now: number = nowInSeconds()): BN => {
+    const { totalBorrowed, totalReserves } = accrueInterest(vault, now);
+    const total = cash.add(totalBorrowed).sub(totalReserves);
+    return total.isNeg() ? ZERO : total;
+};
+
+// Shares -> assets, rounded down like the program; 1:1 while the vault has no shares
+export const convertToAssets = (shares: BN, totalAssets: BN, totalShares: BN): BN => {
+    if (totalShares.isZero()) return shares;
+    return shares.mul(totalAssets).div(totalShares);
+};
+
+// Current asset value of a position, including interest accrued since the last update
+export const getPositionValue = (shares: BN, vault: VaultData, cash: BN, now: number = nowInSeconds()): BN => {
+    return convertToAssets(shares, getTotalAssets(vault, cash, now), vault.totalShares);
+};
+
+// Assets -> shares; deposits round down, withdrawals by amount round up so
+// the user never burns fewer shares than the assets they take out
+export const convertToShares = (assets: BN, totalAssets: BN, totalShares: BN, roundUp = false): BN => {
+    if (totalShares.isZero() || totalAssets.isZero()) return assets;
+    const product = assets.mul(totalShares);
+    const shares = product.div(totalAssets);
+    return roundUp && !product.mod(totalAssets).isZero() ? shares.addn(1) : shares;
+};
+
+const sharePriceOf = (totalAssets: BN, totalShares: BN): number =>
+    totalShares.isZero() ? 1 : ratio(totalAssets, totalShares);
+
+export const previewDeposit = (
+    vault: VaultData,
+    cash: BN,
+    amount: BN,
+    currentShares: BN,
+    now: number = nowInSeconds()
+): VaultPreview => {
+    const totalAssets = getTotalAssets(vault, cash, now);
+    const shares = convertToShares(amount, totalAssets, vault.totalShares);
+    const resultingShares = currentShares.add(shares);
+
+    return {
+        assets: amount,
+        shares,
+        sharePrice: sharePriceOf(totalAssets, vault.totalShares),
+        resultingShares,
+        resultingAssets: convertToAssets(
+            resultingShares,
+            totalAssets.add(amount),
+            vault.totalShares.add(shares)
+        ),
+        exceedsLiquidity: false,
+    };
+};
+
+const previewRedeem = (
+    vault: VaultData,
+    cash: BN,
+    totalAssets: BN,
+    shares: BN,
+    assets: BN,
+    currentShares: BN
+): VaultPreview => {
+    const resultingShares = BN.max(currentShares.sub(shares), ZERO);
+    const remainingShares = BN.max(vault.totalShares.sub(shares), ZERO);
+
+    return {
+        assets,
+        shares,
+        sharePrice: sharePriceOf(totalAssets, vault.totalShares),
+        resultingShares,
+        resultingAssets: convertToAssets(resultingShares, BN.max(totalAssets.sub(assets), ZERO), remainingShares),
+        exceedsLiquidity: assets.gt(cash),
+    };
+};
+
+export const previewWithdraw = (
+    vault: VaultData,
+    cash: BN,
+    shares: BN,
+    currentShares: BN,
+    now: number = nowInSeconds()
+): VaultPreview => {
+    const totalAssets = getTotalAssets(vault, cash, now);
+    const assets = convertToAssets(shares, totalAssets, vault.totalShares);
+    return previewRedeem(vault, cash, totalAssets, shares, assets, currentShares);
+};
+
+// Withdraw-by-amount: the shares needed to receive at least `assets`
+export const previewWithdrawAssets = (
+    vault: VaultData,
+    cash: BN,
+    assets: BN,
+    currentShares: BN,
+    now: number = nowInSeconds()
+): VaultPreview => {
+    const totalAssets = getTotalAssets(vault, cash, now);
+    const shares = convertToShares(assets, totalAssets, vault.totalShares, true);
+    return previewRedeem(vault, cash, totalAssets, shares, convertToAssets(shares, totalAssets, vault.totalShares), currentShares);
+};
+
+// Integer part and 9 decimal places, split so large amounts don't overflow Number
+const ratio = (numerator: BN, denominator: BN): number => {
+    if (denominator.isZero()) return 0;
+    const whole = numerator.div(denominator);
+    const fraction = numerator.mod(denominator).mul(INDEX_SCALE).div(denominator);
+    return whole.toNumber() + fraction.toNumber() / INDEX_SCALE.toNumber();
+};
+
+// Per-second compounding of an annual rate
+const toApy = (apr: number): number => Math.expm1(apr);
+
+export const getVaultMetrics = (vault: VaultData, cash: BN, now: number = nowInSeconds()): VaultMetrics => {
+    const { totalBorrowed } = accrueInterest(vault, now);
+    const totalAssets = getTotalAssets(vault, cash, now);
+
+    const borrowApr = ratio(vault.borrowRate, INDEX_SCALE);
+    const utilization = Math.min(1, ratio(totalBorrowed, totalAssets));
+    const reserveShare = ratio(vault.reserveFactor, BPS_SCALE);
+
+    return {
+        cash,
+        totalAssets,
+        totalShares: vault.totalShares,
+        sharePrice: sharePriceOf(totalAssets, vault.totalShares),
+        utilization,
+        borrowApy: toApy(borrowApr),
+        // Suppliers earn the borrow rate on the utilized part, minus the reserve cut
+        supplyApy: toApy(borrowApr * utilization * (1 - reserveShare)),
+    };
+};
+
+// Base units -> UI amount for display only
+export const toUiAmount = (amount: BN, decimals: number): number => {
+    return ratio(amount, new BN(10).pow(new BN(decimals)));
+};
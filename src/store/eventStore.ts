@@ -0,0 +1,156 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { useNetworkStore } from './networkStore';
+
+// Programs that emit events we listen for
+export type EventProgram = 'simple_vault' | 'unique_low';
+
+// Anchor camelCases IDL event names when it builds the coder
+export type VaultEventName = 'interestAccrued' | 'withdrawEvent';
+export type UniqueIdEventName = 'nftMinted' | 'crossChainMintRequested';
+export type ProgramEventName = VaultEventName | UniqueIdEventName;
+
+// Oldest events are dropped once a program's log reaches this size
+export const MAX_EVENTS_PER_PROGRAM = 100;
+
+export interface ProgramEvent {
+    id: string;
+    program: EventProgram;
+    name: ProgramEventName;
+    data: Record<string, unknown>;
+    slot: number;
+    signature: string;
+    // Position among this program's events in the transaction, so repeated
+    // events of the same name (e.g. several interestAccrued) stay distinct
+    logIndex: number;
+    receivedAt: number;
+}
+
+export interface EventState {
+    // Capped log per program, newest first
+    events: Record<EventProgram, ProgramEvent[]>;
+    lastEvent: ProgramEvent | null;
+
+    // Listener status
+    listening: Record<EventProgram, boolean>;
+
+    // Network dependency tracking
+    lastNetworkHash: string | null;
+}
+
+export interface EventStore extends EventState {
+    // Event actions
+    addEvent: (event: Omit<ProgramEvent, 'id' | 'receivedAt'>) => void;
+    clearEvents: (program?: EventProgram) => void;
+    setListening: (program: EventProgram, listening: boolean) => void;
+
+    // Network synchronization
+    syncWithNetwork: () => void;
+    reset: () => void;
+
+    // Computed getters
+    getEventsByName: (name: ProgramEventName) => ProgramEvent[];
+}
+
+const initialState: EventState = {
+    events: {
+        simple_vault: [],
+        unique_low: [],
+    },
+    lastEvent: null,
+    listening: {
+        simple_vault: false,
+        unique_low: false,
+    },
+    lastNetworkHash: null,
+};
+
+export const useEventStore = create<EventStore>()(
+    devtools(
+        immer((set, get) => ({
+            ...initialState,
+
+            // Event actions
+            addEvent: (event) => set((state) => {
+                const id = `${event.signature}:${event.logIndex}:${event.name}`;
+                const log = state.events[event.program];
+
+                // The same log can arrive twice if a listener is re-registered mid-slot
+                if (log.some((e) => e.id === id)) {
+                    console.log('[EventStore] Duplicate event ignored:', id);
+                    return;
+                }
+
+                const entry: ProgramEvent = { ...event, id, receivedAt: Date.now() };
+                log.unshift(entry);
+                if (log.length > MAX_EVENTS_PER_PROGRAM) {
+                    log.length = MAX_EVENTS_PER_PROGRAM;
+                }
+                state.lastEvent = entry;
+
+                console.log('[EventStore] Event received:', {
+                    program: event.program,
+                    name: event.name,
+                    slot: event.slot,
+                    signature: event.signature,
+                    logSize: log.length
+                });
+            }),
+
+            clearEvents: (program) => set((state) => {
+                if (program) {
+                    state.events[program] = [];
+                } else {
+                    state.events = { simple_vault: [], unique_low: [] };
+                }
+                state.lastEvent = null;
+            }),
+
+            setListening: (program, listening) => set((state) => {
+                state.listening[program] = listening;
+                console.log('[EventStore] Listener status:', { program, listening });
+            }),
+
+            // Network synchronization
+            syncWithNetwork: () => set((state) => {
+                const networkState = useNetworkStore.getState();
+                const networkHash = `${networkState.currentNetwork}-${networkState.isReady}`;
+
+                if (state.lastNetworkHash === networkHash) {
+                    return;
+                }
+
+                // Events from another cluster are meaningless here
+                console.log('[EventStore] Network changed, clearing event log:', networkHash);
+                state.events = { simple_vault: [], unique_low: [] };
+                state.lastEvent = null;
+                state.lastNetworkHash = networkHash;
+            }),
+
+            reset: () => set((state) => {
+                Object.assign(state, initialState);
+            }),
+
+            // Computed getters
+            getEventsByName: (name) => {
+                const { events } = get();
+                return [...events.simple_vault, ...events.unique_low]
+                    .filter((e) => e.name === name)
+                    .sort((a, b) => b.slot - a.slot);
+            },
+        })),
+        { name: 'event-store' }
+    )
+);
+
+// Auto-sync with network store changes
+useNetworkStore.subscribe(() => {
+    useEventStore.getState().syncWithNetwork();
+});
+
+// Selectors
+export const selectVaultEvents = (state: EventStore) => state.events.simple_vault;
+export const selectUniqueIdEvents = (state: EventStore) => state.events.unique_low;
+export const selectLastEvent = (state: EventStore) => state.lastEvent;
+export const selectEventListening = (state: EventStore) => state.listening;
@@ -2,23 +2,47 @@ import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { Connection } from '@solana/web3.js';
+import {
+    DEFAULT_CLUSTER,
+    getDeployment,
+    resolveCluster,
+    setActiveDeployment,
+    type ClusterName,
+} from '@/config/deployments';
+import { DEFAULT_RPC_ENDPOINTS, clusterForGenesisHash, type RpcEndpoint } from '@/config/rpc';
+import type { RpcHealth } from '@/lib/rpcHealth';
 
-const CONFIG = {
-    RPC_ENDPOINTS: {
-        'solana-testnet': 'https://api.testnet.solana.com',
-        'solana-devnet': 'https://api.devnet.solana.com',
-        'solana-mainnet': 'https://api.mainnet-beta.solana.com',
-        'solana-localnet': 'http://localhost:8899',
-        'Solana Local': 'http://localhost:8899',
-    },
-};
+const createConnection = (endpoint: RpcEndpoint) =>
+    new Connection(endpoint.http, {
+        commitment: 'confirmed',
+        wsEndpoint: endpoint.ws ?? undefined,
+    });
+
+// 'verified' is required before any transaction is sent
+export type GenesisStatus = 'unchecked' | 'checking' | 'verified' | 'mismatch' | 'error';
 
 export interface NetworkState {
     currentNetwork: string | null;
+    // CAIP network id reported by the wallet
+    walletChainId: string | null;
     connection: Connection | null;
     isSolanaNetwork: boolean;
     isReady: boolean;
     error: string | null;
+
+    // User overrides per cluster, first entry is the primary; clusters without
+    // an entry use DEFAULT_RPC_ENDPOINTS
+    rpcEndpoints: Partial<Record<ClusterName, RpcEndpoint[]>>;
+    // Endpoint the current connection was built from
+    activeRpcEndpoint: RpcEndpoint | null;
+    // Latest health check per HTTP url
+    rpcHealth: Record<string, RpcHealth>;
+
+    // Genesis hash served by the current connection
+    genesisHash: string | null;
+    genesisStatus: GenesisStatus;
+    // Learned from the local validator, which has no fixed genesis
+    localnetGenesisHash: string | null;
 }
 
 export interface NetworkStore extends NetworkState {
@@ -27,19 +51,32 @@ export interface NetworkStore extends NetworkState {
     setConnection: (connection: Connection | null) => void;
     setCurrentNetwork: (network: string | null) => void;
     setError: (error: string | null) => void;
+    setRpcEndpoints: (cluster: ClusterName, endpoints: RpcEndpoint[]) => void;
+    resetRpcEndpoints: (cluster: ClusterName) => void;
+    switchRpcEndpoint: (endpoint: RpcEndpoint) => void;
+    setRpcHealth: (results: RpcHealth[]) => void;
+    verifyGenesis: () => Promise<void>;
     reset: () => void;
 
     // Computed getters
+    getRpcEndpoints: (cluster?: ClusterName | null) => RpcEndpoint[];
     getRpcUrl: () => string;
     isConnected: () => boolean;
 }
 
 const initialState: NetworkState = {
     currentNetwork: null,
+    walletChainId: null,
     connection: null,
     isSolanaNetwork: false,
     isReady: false,
     error: null,
+    rpcEndpoints: {},
+    activeRpcEndpoint: null,
+    rpcHealth: {},
+    genesisHash: null,
+    genesisStatus: 'unchecked',
+    localnetGenesisHash: null,
 };
 
 export const useNetworkStore = create<NetworkStore>()(
@@ -87,25 +124,33 @@ export const useNetworkStore = create<NetworkStore>()(
 
                     // Update Solana detection
                     state.isSolanaNetwork = isSolanaNetwork;
+                    state.walletChainId = caipNetworkId;
                     state.error = null;
 
                     if (isSolanaNetwork && networkName) {
-                        // Always update the current network
+                        const networkChanged = state.currentNetwork !== networkName;
                         state.currentNetwork = networkName;
 
-                        // Check if we need to create a new connection
-                        if (!state.connection) {
-                            console.log('[NetworkStore] No connection exists, creating new connection for:', networkName);
-
-                            try {
-                                const rpcUrl = CONFIG.RPC_ENDPOINTS[networkName as keyof typeof CONFIG.RPC_ENDPOINTS]
-                                    || CONFIG.RPC_ENDPOINTS['solana-testnet'];
+                        const cluster = resolveCluster(networkName);
+                        if (!cluster) {
+                            // Never guess an RPC - talking to the wrong cluster is worse than none
+                            console.warn('[NetworkStore] Unknown Solana cluster:', networkName);
+                            state.connection = null;
+                            state.activeRpcEndpoint = null;
+                            state.isReady = false;
+                            state.error = `Unknown Solana cluster: ${networkName}`;
+                            return;
+                        }
 
-                                console.log('[NetworkStore] Creating connection with RPC:', rpcUrl);
-                                const newConnection = new Connection(rpcUrl, 'confirmed');
+                        // A connection is never carried across networks
+                        if (networkChanged || !state.connection) {
+                            const endpoint = { ...(state.rpcEndpoints[cluster] ?? DEFAULT_RPC_ENDPOINTS[cluster])[0] };
+                            console.log('[NetworkStore] Creating connection for:', { networkName, rpc: endpoint.http });
 
-                                // Use the setConnection method instead of direct assignment
-                                state.connection = newConnection;
+                            try {
+                                state.connection = createConnection(endpoint);
+                                state.activeRpcEndpoint = endpoint;
+                                state.rpcHealth = {};
                                 state.isReady = true;
 
                                 console.log('[NetworkStore] Connection created successfully');
@@ -113,10 +158,19 @@ export const useNetworkStore = create<NetworkStore>()(
                                 console.error('[NetworkStore] Failed to create connection:', err);
                                 state.error = `Failed to connect to ${networkName}: ${(err as Error).message}`;
                                 state.connection = null;
+                                state.activeRpcEndpoint = null;
                                 state.isReady = false;
                             }
                         } else {
-                            console.log('[NetworkStore] Connection already exists, keeping it');
+                            console.log('[NetworkStore] Same network and connection exists, keeping it');
+                        }
+
+                        // Point CONFIG at this cluster's programs; without a deployment nothing may run
+                        if (setActiveDeployment(networkName)) {
+                            state.isReady = !!state.connection && state.genesisStatus !== 'mismatch';
+                        } else {
+                            state.isReady = false;
+                            state.error = `No program deployment configured for ${networkName}`;
                         }
 
                     } else {
@@ -124,6 +178,7 @@ export const useNetworkStore = create<NetworkStore>()(
                         console.log('[NetworkStore] Not on Solana network, clearing state');
                         state.currentNetwork = null;
                         state.connection = null;
+                        state.activeRpcEndpoint = null;
                         state.isReady = false;
 
                         if (!isSolanaNetwork && networkName) {
@@ -155,6 +210,7 @@ export const useNetworkStore = create<NetworkStore>()(
                     state.currentNetwork = network;
                     if (!network) {
                         state.connection = null;
+                        state.activeRpcEndpoint = null;
                         state.isReady = false;
                     }
                 }),
@@ -163,6 +219,142 @@ export const useNetworkStore = create<NetworkStore>()(
                     state.error = error;
                 }),
 
+                setRpcEndpoints: (cluster, endpoints) => {
+                    if (endpoints.length === 0) {
+                        console.warn('[NetworkStore] Ignoring empty RPC endpoint list for:', cluster);
+                        return;
+                    }
+                    console.log('[NetworkStore] Setting RPC endpoints:', { cluster, endpoints });
+                    set((state) => {
+                        state.rpcEndpoints[cluster] = endpoints;
+                    });
+
+                    // Move the live connection off an endpoint that was removed or edited
+                    const { currentNetwork, activeRpcEndpoint } = get();
+                    const stillListed = endpoints.some((endpoint) =>
+                        endpoint.http === activeRpcEndpoint?.http && endpoint.ws === activeRpcEndpoint?.ws
+                    );
+                    if (resolveCluster(currentNetwork) === cluster && !stillListed) {
+                        get().switchRpcEndpoint(endpoints[0]);
+                    }
+                },
+
+                resetRpcEndpoints: (cluster) => {
+                    console.log('[NetworkStore] Resetting RPC endpoints for:', cluster);
+                    set((state) => {
+                        delete state.rpcEndpoints[cluster];
+                    });
+
+                    if (resolveCluster(get().currentNetwork) === cluster) {
+                        get().switchRpcEndpoint(DEFAULT_RPC_ENDPOINTS[cluster][0]);
+                    }
+                },
+
+                // Rebuilds the connection on another endpoint of the current cluster
+                switchRpcEndpoint: (endpoint) => set((state) => {
+                    if (!state.currentNetwork) {
+                        console.warn('[NetworkStore] switchRpcEndpoint called without a network');
+                        return;
+                    }
+                    if (state.activeRpcEndpoint?.http === endpoint.http
+                        && state.activeRpcEndpoint?.ws === endpoint.ws
+                        && state.connection) {
+                        return;
+                    }
+
+                    console.log('[NetworkStore] Switching RPC endpoint:', {
+                        from: state.activeRpcEndpoint?.http,
+                        to: endpoint.http
+                    });
+                    try {
+                        state.connection = createConnection(endpoint);
+                        state.activeRpcEndpoint = { ...endpoint };
+                    } catch (err) {
+                        console.error('[NetworkStore] Failed to switch RPC endpoint:', err);
+                        state.error = `Failed to connect to ${endpoint.http}: ${(err as Error).message}`;
+                    }
+                }),
+
+                setRpcHealth: (results) => set((state) => {
+                    results.forEach((result) => {
+                        state.rpcHealth[result.url] = result;
+                    });
+                }),
+
+                // Compares the RPC's genesis hash with the wallet's cluster; a
+                // mismatch clears isReady so nothing is read from or sent to it
+                verifyGenesis: async () => {
+                    const { connection, currentNetwork, walletChainId } = get();
+                    const cluster = resolveCluster(currentNetwork);
+                    if (!connection || !cluster) {
+                        set((state) => {
+                            state.genesisHash = null;
+                            state.genesisStatus = 'unchecked';
+                        });
+                        return;
+                    }
+
+                    set((state) => {
+                        state.genesisHash = null;
+                        state.genesisStatus = 'checking';
+                    });
+
+                    let genesisHash: string;
+                    try {
+                        genesisHash = await connection.getGenesisHash();
+                    } catch (err) {
+                        if (get().connection !== connection) return;
+                        console.error('[NetworkStore] Genesis hash check failed:', err);
+                        set((state) => {
+                            state.genesisStatus = 'error';
+                            state.error = `Could not verify the ${cluster} RPC: ${(err as Error).message}`;
+                        });
+                        return;
+                    }
+
+                    // Superseded by a network or endpoint switch while waiting
+                    if (get().connection !== connection) return;
+
+                    // The wallet's CAIP id names a public cluster by its genesis prefix;
+                    // custom networks (localnet) fall back to the network name
+                    const walletCluster = clusterForGenesisHash(walletChainId?.split(':').pop() ?? '') ?? cluster;
+                    const rpcCluster = clusterForGenesisHash(genesisHash);
+                    const matches = walletCluster === 'localnet' ? rpcCluster === null : rpcCluster === walletCluster;
+
+                    console.log('[NetworkStore] Genesis hash check:', {
+                        rpc: connection.rpcEndpoint,
+                        genesisHash,
+                        walletCluster,
+                        rpcCluster,
+                        matches
+                    });
+
+                    set((state) => {
+                        state.genesisHash = genesisHash;
+
+                        if (!matches) {
+                            state.genesisStatus = 'mismatch';
+                            state.isReady = false;
+                            state.error = `Cluster mismatch: the wallet is on ${walletCluster} but ${connection.rpcEndpoint} serves ${rpcCluster ?? 'a local or unknown cluster'}`;
+                            return;
+                        }
+
+                        if (walletCluster === 'localnet') {
+                            if (state.localnetGenesisHash && state.localnetGenesisHash !== genesisHash) {
+                                console.warn('[NetworkStore] Local validator genesis changed - the ledger was reset');
+                            }
+                            state.localnetGenesisHash = genesisHash;
+                        }
+
+                        state.genesisStatus = 'verified';
+                        // Lift a block from an earlier mismatch on this network
+                        state.isReady = getDeployment(currentNetwork) !== null;
+                        if (state.error?.startsWith('Cluster mismatch')) {
+                            state.error = null;
+                        }
+                    });
+                },
+
                 reset: () => set((state) => {
                     console.log('[NetworkStore] === RESET CALLED ===');
                     console.log('[NetworkStore] State BEFORE reset:', {
@@ -184,11 +376,15 @@ export const useNetworkStore = create<NetworkStore>()(
                 }),
 
                 // Computed getters
+                getRpcEndpoints: (cluster) => {
+                    const state = get();
+                    const target = cluster ?? resolveCluster(state.currentNetwork) ?? DEFAULT_CLUSTER;
+                    return state.rpcEndpoints[target] ?? DEFAULT_RPC_ENDPOINTS[target];
+                },
+
                 getRpcUrl: () => {
                     const state = get();
-                    if (!state.currentNetwork) return CONFIG.RPC_ENDPOINTS['solana-testnet'];
-                    return CONFIG.RPC_ENDPOINTS[state.currentNetwork as keyof typeof CONFIG.RPC_ENDPOINTS]
-                        || CONFIG.RPC_ENDPOINTS['solana-testnet'];
+                    return state.activeRpcEndpoint?.http ?? state.getRpcEndpoints()[0].http;
                 },
 
                 isConnected: () => {
@@ -199,8 +395,9 @@ export const useNetworkStore = create<NetworkStore>()(
             {
                 name: 'network-store',
                 partialize: (state) => ({
-                    // Only persist network preference, not connection objects
+                    // Only persist network preference and RPC overrides, not connection objects
                     currentNetwork: state.currentNetwork,
+                    rpcEndpoints: state.rpcEndpoints,
                 }),
             }
         ),
@@ -208,6 +405,13 @@ export const useNetworkStore = create<NetworkStore>()(
     )
 );
 
+// Verify every new connection before it is trusted
+useNetworkStore.subscribe((state, prevState) => {
+    if (state.connection !== prevState?.connection) {
+        state.verifyGenesis();
+    }
+});
+
 // Selectors
 export const selectNetworkState = (state: NetworkStore) => ({
     currentNetwork: state.currentNetwork,
@@ -221,4 +425,8 @@ export const selectConnection = (state: NetworkStore) => state.connection;
 export const selectCurrentNetwork = (state: NetworkStore) => state.currentNetwork;
 export const selectIsSolanaNetwork = (state: NetworkStore) => state.isSolanaNetwork;
 export const selectIsNetworkReady = (state: NetworkStore) => state.isReady;
-export const selectNetworkError = (state: NetworkStore) => state.error;
\ No newline at end of file
+export const selectNetworkError = (state: NetworkStore) => state.error;
+export const selectRpcEndpointOverrides = (state: NetworkStore) => state.rpcEndpoints;
+export const selectActiveRpcEndpoint = (state: NetworkStore) => state.activeRpcEndpoint;
+export const selectRpcHealth = (state: NetworkStore) => state.rpcHealth;
+export const selectGenesisStatus = (state: NetworkStore) => state.genesisStatus;
\ No newline at end of file
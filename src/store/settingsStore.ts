@@ -0,0 +1,83 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import type { ExplorerName } from '@/lib/explorer';
+
+// Percentile of recent prioritization fees to pay (see lib/transactionBuilder.ts)
+export type FeeTier = 'none' | 'low' | 'medium' | 'high';
+
+export const FEE_TIERS: FeeTier[] = ['none', 'low', 'medium', 'high'];
+
+// Compute budget of the last prepared transaction, shown next to the tier picker
+export interface FeeEstimate {
+    computeUnitLimit: number;
+    priorityFeeMicroLamports: number;
+    estimatedPriorityFeeLamports: number;
+    feeTier: FeeTier;
+    timestamp: number;
+}
+
+export interface SettingsState {
+    feeTier: FeeTier;
+    explorer: ExplorerName;
+    lastFeeEstimate: FeeEstimate | null;
+}
+
+export interface SettingsStore extends SettingsState {
+    // Actions
+    setFeeTier: (tier: FeeTier) => void;
+    setExplorer: (explorer: ExplorerName) => void;
+    setLastFeeEstimate: (estimate: FeeEstimate | null) => void;
+    reset: () => void;
+}
+
+const initialState: SettingsState = {
+    feeTier: 'medium',
+    explorer: 'solana-explorer',
+    lastFeeEstimate: null,
+};
+
+export const useSettingsStore = create<SettingsStore>()(
+    devtools(
+        persist(
+            immer((set) => ({
+                ...initialState,
+
+                setFeeTier: (tier) => set((state) => {
+                    console.log('[SettingsStore] Setting fee tier:', {
+                        from: state.feeTier,
+                        to: tier
+                    });
+                    state.feeTier = tier;
+                }),
+
+                setExplorer: (explorer) => set((state) => {
+                    console.log('[SettingsStore] Setting explorer:', explorer);
+                    state.explorer = explorer;
+                }),
+
+                setLastFeeEstimate: (estimate) => set((state) => {
+                    state.lastFeeEstimate = estimate;
+                }),
+
+                reset: () => set((state) => {
+                    Object.assign(state, initialState);
+                }),
+            })),
+            {
+                name: 'settings-store',
+                // Estimates go stale quickly; only the user's choices survive a reload
+                partialize: (state) => ({
+                    feeTier: state.feeTier,
+                    explorer: state.explorer,
+                }),
+            }
+        ),
+        { name: 'settings-store' }
+    )
+);
+
+// Selectors
+export const selectFeeTier = (state: SettingsStore) => state.feeTier;
+export const selectExplorer = (state: SettingsStore) => state.explorer;
+export const selectLastFeeEstimate = (state: SettingsStore) => state.lastFeeEstimate;
@@ -1,10 +1,11 @@
 import { create } from 'zustand';
-import { devtools } from 'zustand/middleware';
+import { devtools, persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import { Program } from '@coral-xyz/anchor';
+import { Program, BN } from '@coral-xyz/anchor';
 import { PublicKey } from '@solana/web3.js';
 import type { TestToken } from '@/types/test_token';
 import { useNetworkStore } from './networkStore';
+import type { DecodedProgramError } from '@/lib/programErrors';
 
 // const CONFIG = {
 //     PROGRAM_ID: 'HY3dPfn3MJqLSbQm4jExye2H8KZag8AkD2AmBXgL2SKm',
@@ -21,9 +22,27 @@ export interface TokenInfo {
 
 export interface UserToken {
     mint: PublicKey;
+    // UI amount, for sorting and quick checks
     balance: number;
+    // Exact balance in base units
+    amount: BN;
     account: PublicKey;
     decimals: number;
+    // Token or Token-2022
+    programId: PublicKey;
+    // False for token accounts other than the owner's ATA for the mint
+    isAssociated: boolean;
+    isFrozen: boolean;
+    // The mint is the asset of a known vault, so it can be deposited
+    isVaultAsset: boolean;
+}
+
+// Mint created from the faucet panel via test_token.initialize
+export interface CreatedMint {
+    // Base58, so it survives persistence
+    mint: string;
+    signature: string;
+    createdAt: number;
 }
 
 export interface TokenState {
@@ -37,9 +56,13 @@ export interface TokenState {
     userTokens: UserToken[];
     selectedToken: PublicKey | null;
 
+    // Faucet mints by network name (persisted)
+    createdMints: Record<string, CreatedMint[]>;
+
     // UI state
     loading: boolean;
     error: string | null;
+    txError: DecodedProgramError | null;
 
     // Network dependency tracking
     lastNetworkHash: string | null;
@@ -56,11 +79,16 @@ export interface TokenStore extends TokenState {
     setUserTokens: (tokens: UserToken[]) => void;
     addUserToken: (token: UserToken) => void;
     updateUserTokenBalance: (mint: PublicKey, balance: number) => void;
+    updateUserTokenAccount: (account: PublicKey, update: Pick<UserToken, 'amount' | 'balance' | 'isFrozen'> | null) => void;
+    setVaultAssetFlags: (assetMints: Set<string>) => void;
     setSelectedToken: (token: PublicKey | null) => void;
+    addCreatedMint: (network: string, mint: CreatedMint) => void;
+    removeCreatedMint: (network: string, mint: string) => void;
 
     // UI actions
     setLoading: (loading: boolean) => void;
     setError: (error: string | null) => void;
+    setTxError: (txError: DecodedProgramError | null) => void;
 
     // Network synchronization
     syncWithNetwork: () => void;
@@ -79,156 +107,204 @@ const initialState: TokenState = {
     tokenInfo: null,
     userTokens: [],
     selectedToken: null,
+    createdMints: {},
     loading: false,
     error: null,
+    txError: null,
     lastNetworkHash: null,
 };
 
 export const useTokenStore = create<TokenStore>()(
     devtools(
-        immer((set, get) => ({
-            ...initialState,
-
-            // Program actions
-            setProgram: (program) => set((state) => {
-                state.program = program;
-                state.isInitialized = !!program;
-                console.log('[TokenStore] Program set:', !!program);
-            }),
-
-            setMintAuthPda: (mintAuthPda) => set((state) => {
-                console.log('[TokenStore] setMintAuthPda called with:', {
-                    mintAuthPda: mintAuthPda?.toBase58(),
-                    currentValue: state.mintAuthPda?.toBase58()
-                });
-                state.mintAuthPda = mintAuthPda;
-                console.log('[TokenStore] MintAuth PDA set to:', state.mintAuthPda?.toBase58());
-            }),
-
-            setIsInitialized: (initialized) => set((state) => {
-                state.isInitialized = initialized;
-            }),
-
-            // Token data actions
-            setTokenInfo: (tokenInfo) => set((state) => {
-                state.tokenInfo = tokenInfo;
-                console.log('[TokenStore] Token info updated:', tokenInfo?.mint.toBase58());
-            }),
-
-            setUserTokens: (tokens) => set((state) => {
-                state.userTokens = tokens;
-                console.log('[TokenStore] User tokens updated:', tokens.length, 'tokens');
-            }),
-
-            addUserToken: (token) => set((state) => {
-                const existingIndex = state.userTokens.findIndex(t =>
-                    t.mint.toBase58() === token.mint.toBase58()
-                );
-
-                if (existingIndex >= 0) {
-                    // Update existing token
-                    state.userTokens[existingIndex] = token;
-                } else {
-                    // Add new token
-                    state.userTokens.push(token);
-                }
-                console.log('[TokenStore] Token added/updated:', token.mint.toBase58());
-            }),
-
-            updateUserTokenBalance: (mint, balance) => set((state) => {
-                const token = state.userTokens.find(t => t.mint.equals(mint));
-                if (token) {
-                    token.balance = balance;
-                    console.log('[TokenStore] Balance updated:', mint.toBase58(), balance);
-                }
-            }),
-
-            setSelectedToken: (token) => set((state) => {
-                state.selectedToken = token;
-                console.log('[TokenStore] Selected token:', token?.toBase58());
-            }),
-
-            // UI actions
-            setLoading: (loading) => set((state) => {
-                state.loading = loading;
-            }),
-
-            setError: (error) => set((state) => {
-                state.error = error;
-                if (error) {
-                    console.error('[TokenStore] Error set:', error);
-                }
-            }),
-
-            // Network synchronization
-            syncWithNetwork: () => set((state) => {
-                const networkState = useNetworkStore.getState();
-                const networkHash = `${networkState.currentNetwork}-${networkState.isReady}-${!!networkState.connection}`;
-
-                console.log('[TokenStore] === TOKEN SYNC DEBUG START ===');
-                console.log('[TokenStore] Network state:', {
-                    currentNetwork: networkState.currentNetwork,
-                    isReady: networkState.isReady,
-                    hasConnection: !!networkState.connection,
-                    isSolanaNetwork: networkState.isSolanaNetwork
-                });
-                console.log('[TokenStore] Hash comparison:', {
-                    currentHash: state.lastNetworkHash,
-                    newHash: networkHash,
-                    hashChanged: state.lastNetworkHash !== networkHash
-                });
-                console.log('[TokenStore] === TOKEN SYNC DEBUG END ===');
-
-                console.log('[TokenStore] Syncing with network:', {
-                    currentHash: state.lastNetworkHash,
-                    newHash: networkHash,
-                    isReady: networkState.isReady
-                });
-
-                // Check if network state changed
-                if (state.lastNetworkHash !== networkHash) {
-                    state.lastNetworkHash = networkHash;
-
-                    if (!networkState.isReady || !networkState.isSolanaNetwork) {
-                        // Network not ready or not Solana - clear program state
-                        console.log('[TokenStore] Network not ready, clearing program state');
-                        state.program = null;
-                        state.mintAuthPda = null;
-                        state.isInitialized = false;
-                        state.tokenInfo = null;
-                        state.userTokens = [];
-                        state.selectedToken = null;
-                        state.error = null;
+        persist(
+            immer((set, get) => ({
+                ...initialState,
+
+                // Program actions
+                setProgram: (program) => set((state) => {
+                    state.program = program;
+                    state.isInitialized = !!program;
+                    console.log('[TokenStore] Program set:', !!program);
+                }),
+
+                setMintAuthPda: (mintAuthPda) => set((state) => {
+                    console.log('[TokenStore] setMintAuthPda called with:', {
+                        mintAuthPda: mintAuthPda?.toBase58(),
+                        currentValue: state.mintAuthPda?.toBase58()
+                    });
+                    state.mintAuthPda = mintAuthPda;
+                    console.log('[TokenStore] MintAuth PDA set to:', state.mintAuthPda?.toBase58());
+                }),
+
+                setIsInitialized: (initialized) => set((state) => {
+                    state.isInitialized = initialized;
+                }),
+
+                // Token data actions
+                setTokenInfo: (tokenInfo) => set((state) => {
+                    state.tokenInfo = tokenInfo;
+                    console.log('[TokenStore] Token info updated:', tokenInfo?.mint.toBase58());
+                }),
+
+                setUserTokens: (tokens) => set((state) => {
+                    state.userTokens = tokens;
+                    console.log('[TokenStore] User tokens updated:', tokens.length, 'tokens');
+                }),
+
+                addUserToken: (token) => set((state) => {
+                    // A mint can have several token accounts, so match on the account
+                    const existingIndex = state.userTokens.findIndex(t =>
+                        t.account.equals(token.account)
+                    );
+
+                    if (existingIndex >= 0) {
+                        // Update existing token
+                        state.userTokens[existingIndex] = token;
                     } else {
-                        // Network is ready - clear error and prepare for program initialization
-                        console.log('[TokenStore] Network ready for program initialization');
-                        state.error = null;
-                        // Note: Program initialization happens in the hook, not here
+                        // Add new token
+                        state.userTokens.push(token);
+                    }
+                    console.log('[TokenStore] Token added/updated:', token.mint.toBase58());
+                }),
+
+                updateUserTokenBalance: (mint, balance) => set((state) => {
+                    const token = state.userTokens.find(t => t.mint.equals(mint));
+                    if (token) {
+                        token.balance = balance;
+                        console.log('[TokenStore] Balance updated:', mint.toBase58(), balance);
+                    }
+                }),
+
+                // Live account update; null means the account was closed
+                updateUserTokenAccount: (account, update) => set((state) => {
+                    const index = state.userTokens.findIndex(t => t.account.equals(account));
+                    if (index < 0) return;
+
+                    if (update) {
+                        Object.assign(state.userTokens[index], update);
+                    } else {
+                        state.userTokens.splice(index, 1);
+                    }
+                    console.log('[TokenStore] Token account updated:', account.toBase58(), update ? update.amount.toString() : 'closed');
+                }),
+
+                setVaultAssetFlags: (assetMints) => set((state) => {
+                    state.userTokens.forEach((token) => {
+                        token.isVaultAsset = assetMints.has(token.mint.toBase58());
+                    });
+                }),
+
+                setSelectedToken: (token) => set((state) => {
+                    state.selectedToken = token;
+                    console.log('[TokenStore] Selected token:', token?.toBase58());
+                }),
+
+                addCreatedMint: (network, mint) => set((state) => {
+                    const mints = state.createdMints[network] ?? [];
+                    if (!mints.some((m) => m.mint === mint.mint)) {
+                        state.createdMints[network] = [mint, ...mints];
+                    }
+                    console.log('[TokenStore] Created mint recorded:', network, mint.mint);
+                }),
+
+                removeCreatedMint: (network, mint) => set((state) => {
+                    state.createdMints[network] = (state.createdMints[network] ?? []).filter((m) => m.mint !== mint);
+                }),
+
+                // UI actions
+                setLoading: (loading) => set((state) => {
+                    state.loading = loading;
+                }),
+
+                setError: (error) => set((state) => {
+                    state.error = error;
+                    if (error) {
+                        console.error('[TokenStore] Error set:', error);
+                    }
+                }),
+
+                setTxError: (txError) => set((state) => {
+                    state.txError = txError;
+                }),
+
+                // Network synchronization
+                syncWithNetwork: () => set((state) => {
+                    const networkState = useNetworkStore.getState();
+                    const networkHash = `${networkState.currentNetwork}-${networkState.isReady}-${!!networkState.connection}`;
+
+                    console.log('[TokenStore] === TOKEN SYNC DEBUG START ===');
+                    console.log('[TokenStore] Network state:', {
+                        currentNetwork: networkState.currentNetwork,
+                        isReady: networkState.isReady,
+                        hasConnection: !!networkState.connection,
+                        isSolanaNetwork: networkState.isSolanaNetwork
+                    });
+                    console.log('[TokenStore] Hash comparison:', {
+                        currentHash: state.lastNetworkHash,
+                        newHash: networkHash,
+                        hashChanged: state.lastNetworkHash !== networkHash
+                    });
+                    console.log('[TokenStore] === TOKEN SYNC DEBUG END ===');
+
+                    console.log('[TokenStore] Syncing with network:', {
+                        currentHash: state.lastNetworkHash,
+                        newHash: networkHash,
+                        isReady: networkState.isReady
+                    });
+
+                    // Check if network state changed
+                    if (state.lastNetworkHash !== networkHash) {
+                        state.lastNetworkHash = networkHash;
+
+                        if (!networkState.isReady || !networkState.isSolanaNetwork) {
+                            // Network not ready or not Solana - clear program state
+                            console.log('[TokenStore] Network not ready, clearing program state');
+                            state.program = null;
+                            state.mintAuthPda = null;
+                            state.isInitialized = false;
+                            state.tokenInfo = null;
+                            state.userTokens = [];
+                            state.selectedToken = null;
+                            state.error = null;
+                        } else {
+                            // Network is ready - clear error and prepare for program initialization
+                            console.log('[TokenStore] Network ready for program initialization');
+                            state.error = null;
+                            // Note: Program initialization happens in the hook, not here
+                        }
                     }
-                }
-            }),
-
-            reset: () => set((state) => {
-                console.log('[TokenStore] Resetting state');
-                Object.assign(state, initialState);
-            }),
-
-            // Computed getters
-            getTokenByMint: (mint) => {
-                const state = get();
-                return state.userTokens.find(token => token.mint.equals(mint)) || null;
-            },
-
-            getTotalTokensValue: () => {
-                const state = get();
-                return state.userTokens.reduce((total, token) => total + token.balance, 0);
-            },
-
-            hasTokens: () => {
-                const state = get();
-                return state.userTokens.length > 0;
-            },
-        })),
+                }),
+
+                reset: () => set((state) => {
+                    console.log('[TokenStore] Resetting state');
+                    // Created mints still exist on-chain, so they outlive a reset
+                    Object.assign(state, { ...initialState, createdMints: state.createdMints });
+                }),
+
+                // Computed getters
+                getTokenByMint: (mint) => {
+                    const state = get();
+                    return state.userTokens.find(token => token.mint.equals(mint)) || null;
+                },
+
+                getTotalTokensValue: () => {
+                    const state = get();
+                    return state.userTokens.reduce((total, token) => total + token.balance, 0);
+                },
+
+                hasTokens: () => {
+                    const state = get();
+                    return state.userTokens.some((token) => !token.amount.isZero());
+                },
+            })),
+            {
+                name: 'token-store',
+                // Only the faucet's mint list; balances and programs are reloaded
+                partialize: (state) => ({
+                    createdMints: state.createdMints,
+                }),
+            }
+        ),
         { name: 'token-store' }
     )
 );
@@ -260,4 +336,6 @@ export const selectTokenProgram = (state: TokenStore) => state.program;
 export const selectMintAuthPda = (state: TokenStore) => state.mintAuthPda;
 export const selectUserTokens = (state: TokenStore) => state.userTokens;
 export const selectTokenLoading = (state: TokenStore) => state.loading;
-export const selectTokenError = (state: TokenStore) => state.error;
\ No newline at end of file
+export const selectTokenError = (state: TokenStore) => state.error;
+export const selectTokenTxError = (state: TokenStore) => state.txError;
+export const selectCreatedMints = (state: TokenStore) => state.createdMints;
\ No newline at end of file
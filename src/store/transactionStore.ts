@@ -0,0 +1,144 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+
+export type TrackedTransactionStatus = 'pending' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+
+// Settled entries beyond this are dropped, oldest first
+export const MAX_TRACKED_TRANSACTIONS = 50;
+
+export interface TrackedTransaction {
+    signature: string;
+    // Human readable action, e.g. "Deposit"
+    label: string;
+    network: string | null;
+    status: TrackedTransactionStatus;
+    // Blockhash the transaction was signed with; it can't land after lastValidBlockHeight
+    blockhash: string;
+    lastValidBlockHeight: number;
+    // Signed wire bytes (base64), kept so the tracker can rebroadcast while pending
+    serialized: string;
+    sendCount: number;
+    slot: number | null;
+    error: string | null;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface TransactionTrackerState {
+    // Keyed by signature
+    transactions: Record<string, TrackedTransaction>;
+}
+
+export interface TransactionTrackerStore extends TransactionTrackerState {
+    // Actions
+    addTransaction: (tx: Omit<TrackedTransaction, 'status' | 'sendCount' | 'slot' | 'error' | 'createdAt' | 'updatedAt'>) => void;
+    updateTransaction: (signature: string, update: Partial<Pick<TrackedTransaction, 'status' | 'slot' | 'error'>>) => void;
+    markResent: (signature: string) => void;
+    removeTransaction: (signature: string) => void;
+    clearSettled: () => void;
+    reset: () => void;
+
+    // Computed getters
+    getPendingTransactions: (network: string | null) => TrackedTransaction[];
+}
+
+const initialState: TransactionTrackerState = {
+    transactions: {},
+};
+
+const isPending = (tx: TrackedTransaction) => tx.status === 'pending';
+
+export const useTransactionStore = create<TransactionTrackerStore>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                ...initialState,
+
+                addTransaction: (tx) => set((state) => {
+                    const now = Date.now();
+                    state.transactions[tx.signature] = {
+                        ...tx,
+                        status: 'pending',
+                        sendCount: 1,
+                        slot: null,
+                        error: null,
+                        createdAt: now,
+                        updatedAt: now,
+                    };
+
+                    // Trim settled history; pending entries are never dropped
+                    const settled = Object.values(state.transactions)
+                        .filter((t) => !isPending(t))
+                        .sort((a, b) => b.createdAt - a.createdAt);
+                    settled.slice(MAX_TRACKED_TRANSACTIONS).forEach((t) => {
+                        delete state.transactions[t.signature];
+                    });
+
+                    console.log('[TransactionStore] Tracking transaction:', {
+                        signature: tx.signature,
+                        label: tx.label,
+                        lastValidBlockHeight: tx.lastValidBlockHeight
+                    });
+                }),
+
+                updateTransaction: (signature, update) => set((state) => {
+                    const tx = state.transactions[signature];
+                    if (!tx) return;
+
+                    if (update.status && update.status !== tx.status) {
+                        console.log('[TransactionStore] Status change:', {
+                            signature,
+                            from: tx.status,
+                            to: update.status
+                        });
+                    }
+                    Object.assign(tx, update, { updatedAt: Date.now() });
+                }),
+
+                markResent: (signature) => set((state) => {
+                    const tx = state.transactions[signature];
+                    if (!tx) return;
+                    tx.sendCount += 1;
+                    tx.updatedAt = Date.now();
+                }),
+
+                removeTransaction: (signature) => set((state) => {
+                    delete state.transactions[signature];
+                }),
+
+                clearSettled: () => set((state) => {
+                    Object.values(state.transactions)
+                        .filter((t) => !isPending(t))
+                        .forEach((t) => {
+                            delete state.transactions[t.signature];
+                        });
+                }),
+
+                reset: () => set((state) => {
+                    Object.assign(state, initialState);
+                }),
+
+                getPendingTransactions: (network) => {
+                    return Object.values(get().transactions)
+                        .filter((t) => isPending(t) && t.network === network);
+                },
+            })),
+            {
+                name: 'transaction-store',
+                // Only in-flight transactions need to survive a reload so tracking can resume
+                partialize: (state) => ({
+                    transactions: Object.fromEntries(
+                        Object.entries(state.transactions).filter(([, tx]) => isPending(tx))
+                    ),
+                }),
+            }
+        ),
+        { name: 'transaction-store' }
+    )
+);
+
+// Selectors
+export const selectTransactions = (state: TransactionTrackerStore) => state.transactions;
+export const selectTransaction = (signature: string | null) =>
+    (state: TransactionTrackerStore) => (signature ? state.transactions[signature] ?? null : null);
@@ -5,14 +5,8 @@ import { Program } from '@coral-xyz/anchor';
 import { PublicKey } from '@solana/web3.js';
 import type { UniqueLow } from '@/types/unique_low';
 import { useNetworkStore } from './networkStore';
-
-const CONFIG = {
-    PROGRAM_ID: '5XdsDEXPiHndfBkrvJKjsFZy3Zf95bUZLRZQvJ4W6Bpa',
-    COLLECTION_SEED: Buffer.from("collection"),
-    USER_STATE_SEED: Buffer.from("user_state"),
-    // Hardcoded collection PDA from your config
-    COLLECTION_PDA: new PublicKey("EoZ5NFigrZ7uqUUSH6ShDsYGMooe5ziTfgWvAbFmVTXt"),
-};
+import type { DecodedProgramError } from '@/lib/programErrors';
+import { CONFIG } from '@/config/programs';
 
 export interface Collection {
     authority: PublicKey;
@@ -36,7 +30,18 @@ export interface MintedNFT {
     tokenAccount: PublicKey;
     tokenId: number;
     uniqueId: number[];
-    txSignature: string;
+    // Only known for NFTs minted in this session
+    txSignature?: string;
+}
+
+export interface CrossChainRequest {
+    signature: string;
+    mint: PublicKey;
+    targetChainId: number; // Wormhole chain id
+    recipient: string; // EVM address as entered, 0x-prefixed
+    nonce: number;
+    sequence: string | null; // u64 from CrossChainMintRequested, as string
+    requestedAt: number;
 }
 
 export interface UniqueIdState {
@@ -54,9 +59,13 @@ export interface UniqueIdState {
     totalSupply: number;
     userNonce: number;
     
+    // Cross-chain requests sent from this session
+    crossChainRequests: CrossChainRequest[];
+    
     // UI state
     loading: boolean;
     error: string | null;
+    txError: DecodedProgramError | null;
     
     // Network dependency tracking
     lastNetworkHash: string | null;
@@ -78,9 +87,13 @@ export interface UniqueIdStore extends UniqueIdState {
     setTotalSupply: (supply: number) => void;
     setUserNonce: (nonce: number) => void;
     
+    // Cross-chain actions
+    addCrossChainRequest: (request: CrossChainRequest) => void;
+    
     // UI actions
     setLoading: (loading: boolean) => void;
     setError: (error: string | null) => void;
+    setTxError: (txError: DecodedProgramError | null) => void;
     
     // Network synchronization
     syncWithNetwork: () => void;
@@ -104,8 +117,10 @@ const initialState: UniqueIdState = {
     userNFTs: [],
     totalSupply: 0,
     userNonce: 0,
+    crossChainRequests: [],
     loading: false,
     error: null,
+    txError: null,
     lastNetworkHash: null,
 };
 
@@ -119,7 +134,7 @@ export const useUniqueIdStore = create<UniqueIdStore>()(
                 console.log('[UniqueIdStore] === SET PROGRAM START ===');
                 console.log('[UniqueIdStore] Setting program:', {
                     hasProgram: !!program,
-                    programId: program ? CONFIG.PROGRAM_ID : null,
+                    programId: program ? CONFIG.NFT_PROGRAM_ID.toBase58() : null,
                     previousProgram: !!state.program
                 });
                 
@@ -222,7 +237,7 @@ export const useUniqueIdStore = create<UniqueIdStore>()(
                     mint: nft.mint.toBase58(),
                     tokenId: nft.tokenId,
                     uniqueId: nft.uniqueId,
-                    txSignature: nft.txSignature.slice(0, 8) + '...',
+                    txSignature: nft.txSignature ? nft.txSignature.slice(0, 8) + '...' : null,
                     currentNFTCount: state.userNFTs.length
                 });
                 
@@ -261,6 +276,17 @@ export const useUniqueIdStore = create<UniqueIdStore>()(
                 state.userNonce = nonce;
             }),
 
+            // Cross-chain actions
+            addCrossChainRequest: (request) => set((state) => {
+                console.log('[UniqueIdStore] Adding cross-chain request:', {
+                    mint: request.mint.toBase58(),
+                    targetChainId: request.targetChainId,
+                    sequence: request.sequence,
+                    signature: request.signature.slice(0, 8) + '...'
+                });
+                state.crossChainRequests.unshift(request);
+            }),
+
             // UI actions
             setLoading: (loading) => set((state) => {
                 console.log('[UniqueIdStore] Setting loading state:', {
@@ -286,6 +312,11 @@ export const useUniqueIdStore = create<UniqueIdStore>()(
                 console.log('[UniqueIdStore] === SET ERROR END ===');
             }),
 
+            setTxError: (txError) => set((state) => {
+                console.log('[UniqueIdStore] Setting transaction error:', txError);
+                state.txError = txError;
+            }),
+
             // Network synchronization
             syncWithNetwork: () => set((state) => {
                 console.log('[UniqueIdStore] === SYNC WITH NETWORK START ===');
@@ -330,6 +361,7 @@ export const useUniqueIdStore = create<UniqueIdStore>()(
                             userNFTs: [],
                             totalSupply: 0,
                             userNonce: 0,
+                            crossChainRequests: [],
                             error: null
                         };
                         
@@ -531,8 +563,10 @@ export const selectNFTData = (state: UniqueIdStore) => ({
 export const selectUniqueIdProgram = (state: UniqueIdStore) => state.program;
 export const selectCollection = (state: UniqueIdStore) => state.collection;
 export const selectUserNFTs = (state: UniqueIdStore) => state.userNFTs;
+export const selectCrossChainRequests = (state: UniqueIdStore) => state.crossChainRequests;
 export const selectUniqueIdLoading = (state: UniqueIdStore) => state.loading;
 export const selectUniqueIdError = (state: UniqueIdStore) => state.error;
+export const selectUniqueIdTxError = (state: UniqueIdStore) => state.txError;
 export const selectCollectionPda = () => CONFIG.COLLECTION_PDA;
 
 // // stores/uniqueIdStore.ts
@@ -6,17 +6,35 @@ import { PublicKey } from '@solana/web3.js';
 import type { SimpleVault } from '@/types/simple_vault';
 import { useNetworkStore } from './networkStore';
 import { BN } from '@coral-xyz/anchor';
+import { CONFIG, VaultUtils, type VaultRef } from '@/config/programs';
+import type { DecodedProgramError } from '@/lib/programErrors';
+import type { SimulationResult } from '@/lib/transactionSimulation';
 
-const CONFIG = {
-    PROGRAM_ID: '6szSVnHy2GrCi6y7aQxJfQG9WpVkTgdB6kDXixepvdoW',
-    VAULT_SEED: Buffer.from("vault_v3"),
-    USER_INFO_SEED: Buffer.from("user_info_v3"),
-    USER_SHARES_SEED: Buffer.from("user_shares_v3"),
-    COLLECTION_PDA: new PublicKey('EoZ5NFigrZ7uqUUSH6ShDsYGMooe5ziTfgWvAbFmVTXt'),
-    VAULT_ASSET_MINT: new PublicKey("4kXBWAG92UZA1FPEQDN5bjePoFyQsbTnZ9rpxgRBbFYk"),
-    VAULT_PDA: new PublicKey("DbCxNx4uvjK2wxvJbrd5DVJ6jVM8eJirYk8RbAL9Mvt1"),
-    SHARE_MINT: new PublicKey("5CTdzZxPhqC4DWpTM5MFzwqCtHFmKQTsXE7VWUC6UxTG"),
-    VAULT_TOKEN_ACCOUNT: new PublicKey("Ak7DxLGEauBkW769NSRvA9kVkc41SxJKK29mbeJu5gzE"),
+// Addresses of the vault deployment on the active cluster
+export interface VaultConfig {
+    cluster: string;
+    programId: PublicKey;
+    vaultVersion: string;
+    collectionPda: PublicKey;
+    assetMint: PublicKey;
+    shareMint: PublicKey;
+    vaultPda: PublicKey;
+    vaultTokenAccount: PublicKey;
+}
+
+// Falls back to the env-configured vault until one has been discovered and selected
+const resolveVaultConfig = (selected: VaultRef | null = null): VaultConfig => {
+    const vaultRef = selected ?? VaultUtils.getDefaultVaultRef();
+    return {
+        cluster: CONFIG.CLUSTER,
+        programId: CONFIG.VAULT_PROGRAM_ID,
+        vaultVersion: vaultRef.version,
+        collectionPda: CONFIG.COLLECTION_PDA,
+        assetMint: vaultRef.assetMint,
+        shareMint: vaultRef.shareMint,
+        vaultPda: vaultRef.address,
+        vaultTokenAccount: VaultUtils.getVaultTokenAccount(vaultRef.assetMint, vaultRef.owner, vaultRef.version),
+    };
 };
 
 export interface VaultData {
@@ -34,26 +52,89 @@ export interface VaultData {
     bump: number;        
 }
 
+// A vault found on-chain, keyed by VaultUtils.getVaultKey(assetMint, version)
+export interface DiscoveredVault extends VaultRef {
+    key: string;
+    data: VaultData;
+}
+
+// Raw balance of the selected vault's token account (the vault's cash)
+export interface VaultBalance {
+    amount: BN;
+    decimals: number;
+}
+
 export interface UserPosition {
     user: PublicKey;
     nftMint: PublicKey;
     depositAmount: number;
+    // Exact share balance in base units, for withdraw checks and previews
+    shares: BN;
+    // Display only; loses precision above 2^53
     shareAmount: number;
     timestamp: number;
 }
 
+export interface VaultCloseSummary {
+    vaultPda: PublicKey;
+    assetMint: PublicKey;
+    vaultTokenAccount: PublicKey;
+    totalShares: BN;
+    tokenBalance: BN;
+    uiTokenBalance: number;
+    // Set when the vault token account couldn't be read; the balance is then unknown
+    balanceError: string | null;
+    canClose: boolean;
+}
+
+export enum TransactionStatus {
+    IDLE = 'idle',
+    BUILDING = 'building',
+    SIMULATING = 'simulating',
+    SIGNING = 'signing',
+    CONFIRMING = 'confirming',
+    SUCCESS = 'success',
+    FAILED = 'failed'
+}
+
+export interface TransactionState {
+    status: TransactionStatus;
+    signature: string | null;
+    error: DecodedProgramError | null;
+    message: string;
+    // Result of the pre-signing simulation, kept through signing and confirmation
+    simulation?: SimulationResult | null;
+}
+
+const idleTransactionState: TransactionState = {
+    status: TransactionStatus.IDLE,
+    signature: null,
+    error: null,
+    message: ''
+};
+
 export interface VaultState {
     // Program state
     program: Program<SimpleVault> | null;
     isInitialized: boolean;
     
-    // Vault data
+    // Vault data (vault mirrors the selected entry of vaults)
+    vaults: Record<string, DiscoveredVault>;
+    selectedVaultKey: string | null;
     vault: VaultData | null;
+    vaultBalance: VaultBalance | null;
     
     // User position state (separated)
     selectedNFTPosition: UserPosition | null;
     allUserPositions: UserPosition[];
     userPositionLoading: boolean;
+    portfolioLoading: boolean;
+    
+    // Admin state (owner-only vault lifecycle)
+    closeSummary: VaultCloseSummary | null;
+    
+    // Deposit/withdraw progress, kept here so it survives navigation
+    transactionState: TransactionState;
     
     // UI state
     loading: boolean;
@@ -70,12 +151,27 @@ export interface VaultStore extends VaultState {
     
     // Vault data actions
     setVault: (vault: VaultData | null) => void;
+    setVaults: (vaults: DiscoveredVault[]) => void;
+    setSelectedVault: (key: string | null) => void;
+    setVaultBalance: (balance: VaultBalance | null) => void;
+    updateVaultData: (key: string, data: VaultData) => void;
+    removeVault: (key: string) => void;
     
     // User position actions (separated)
     updateUserPositionForNFT: (nftMint: PublicKey, position: UserPosition | null) => void;
+    upsertUserPosition: (nftMint: PublicKey, position: UserPosition | null) => void;
     setUserPositionLoading: (loading: boolean) => void;
+    setUserPositions: (positions: UserPosition[]) => void;
+    setPortfolioLoading: (loading: boolean) => void;
+    clearSelectedNFTPosition: () => void;
     clearUserPositions: () => void;
     
+    // Admin actions
+    setCloseSummary: (summary: VaultCloseSummary | null) => void;
+    
+    // Transaction actions
+    setTransactionState: (transactionState: TransactionState) => void;
+    
     // UI actions
     setLoading: (loading: boolean) => void;
     setError: (error: string | null) => void;
@@ -89,16 +185,24 @@ export interface VaultStore extends VaultState {
     getTotalDeposited: () => number;
     getTotalShares: () => number;
     hasPositions: () => boolean;
-    getVaultConfig: () => typeof CONFIG;
+    isVaultOwner: (address: string | null | undefined) => boolean;
+    getVaultConfig: () => VaultConfig;
+    getSelectedVault: () => DiscoveredVault | null;
 }
 
 const initialState: VaultState = {
     program: null,
     isInitialized: false,
+    vaults: {},
+    selectedVaultKey: null,
     vault: null,
+    vaultBalance: null,
     selectedNFTPosition: null,
     allUserPositions: [],
     userPositionLoading: false,
+    portfolioLoading: false,
+    closeSummary: null,
+    transactionState: idleTransactionState,
     loading: false,
     error: null,
     lastNetworkHash: null,
@@ -149,6 +253,9 @@ export const useVaultStore = create<VaultStore>()(
                 // });
                 
                 state.vault = vault;
+                if (vault && state.selectedVaultKey && state.vaults[state.selectedVaultKey]) {
+                    state.vaults[state.selectedVaultKey].data = vault;
+                }
                 
                 // console.log('[VaultStore] Vault data updated:', {
                 //     hasVault: !!state.vault
@@ -156,6 +263,103 @@ export const useVaultStore = create<VaultStore>()(
                 // console.log('[VaultStore] === SET VAULT END ===');
             }),
 
+            setVaults: (vaults) => set((state) => {
+                const previousKey = state.selectedVaultKey;
+
+                state.vaults = {};
+                vaults.forEach((entry) => {
+                    if (state.vaults[entry.key]) {
+                        console.warn('[VaultStore] Duplicate vault key, keeping first:', entry.key);
+                        return;
+                    }
+                    state.vaults[entry.key] = entry;
+                });
+
+                // Keep the current selection if it still exists, else prefer the configured vault
+                const defaultKey = VaultUtils.getVaultKey(CONFIG.VAULT_ASSET_MINT, CONFIG.VAULT_VERSION);
+                const keys = Object.keys(state.vaults);
+                const nextKey = previousKey && state.vaults[previousKey]
+                    ? previousKey
+                    : state.vaults[defaultKey] ? defaultKey : keys[0] ?? null;
+
+                state.selectedVaultKey = nextKey;
+                state.vault = nextKey ? state.vaults[nextKey].data : null;
+
+                // Positions belong to the previously selected vault
+                if (nextKey !== previousKey) {
+                    state.selectedNFTPosition = null;
+                    state.allUserPositions = [];
+                    state.vaultBalance = null;
+                }
+
+                console.log('[VaultStore] Vaults updated:', {
+                    count: keys.length,
+                    keys,
+                    selectedVaultKey: nextKey
+                });
+            }),
+
+            setSelectedVault: (key) => set((state) => {
+                if (key === state.selectedVaultKey) return;
+                if (key && !state.vaults[key]) {
+                    console.warn('[VaultStore] Unknown vault key:', key);
+                    return;
+                }
+
+                console.log('[VaultStore] Selecting vault:', {
+                    from: state.selectedVaultKey,
+                    to: key
+                });
+
+                state.selectedVaultKey = key;
+                state.vault = key ? state.vaults[key].data : null;
+                state.vaultBalance = null;
+                state.selectedNFTPosition = null;
+                state.allUserPositions = [];
+            }),
+
+            setVaultBalance: (balance) => set((state) => {
+                console.log('[VaultStore] Setting vault balance:', {
+                    amount: balance?.amount.toString(),
+                    decimals: balance?.decimals
+                });
+                state.vaultBalance = balance;
+            }),
+
+            // Live account update for one discovered vault
+            updateVaultData: (key, data) => set((state) => {
+                const entry = state.vaults[key];
+                if (!entry) return;
+
+                entry.data = data;
+                if (key === state.selectedVaultKey) {
+                    state.vault = data;
+                }
+            }),
+
+            // A discovered vault was closed on-chain
+            removeVault: (key) => set((state) => {
+                if (!state.vaults[key]) return;
+                delete state.vaults[key];
+
+                if (key !== state.selectedVaultKey) return;
+
+                // Same fallback as setVaults: the configured vault, else the first left
+                const defaultKey = VaultUtils.getVaultKey(CONFIG.VAULT_ASSET_MINT, CONFIG.VAULT_VERSION);
+                const nextKey = state.vaults[defaultKey] ? defaultKey : Object.keys(state.vaults)[0] ?? null;
+
+                console.log('[VaultStore] Selected vault removed:', {
+                    removed: key,
+                    selectedVaultKey: nextKey
+                });
+
+                state.selectedVaultKey = nextKey;
+                state.vault = nextKey ? state.vaults[nextKey].data : null;
+                state.vaultBalance = null;
+                state.selectedNFTPosition = null;
+                state.allUserPositions = [];
+            }),
+
             // User position actions (separated)
             updateUserPositionForNFT: (nftMint, position) => set((state) => {
                 // console.log('[VaultStore] === UPDATE USER POSITION START ===');
@@ -192,6 +396,25 @@ export const useVaultStore = create<VaultStore>()(
                 console.log('[VaultStore] === UPDATE USER POSITION END ===');
             }),
 
+            // Live account update for one NFT; unlike updateUserPositionForNFT this
+            // leaves the selection alone unless the position is the selected one
+            upsertUserPosition: (nftMint, position) => set((state) => {
+                const index = state.allUserPositions.findIndex(p => p.nftMint.equals(nftMint));
+                if (position) {
+                    if (index >= 0) {
+                        state.allUserPositions[index] = position;
+                    } else {
+                        state.allUserPositions.push(position);
+                    }
+                } else if (index >= 0) {
+                    state.allUserPositions.splice(index, 1);
+                }
+
+                if (state.selectedNFTPosition?.nftMint.equals(nftMint)) {
+                    state.selectedNFTPosition = position;
+                }
+            }),
+
             setUserPositionLoading: (loading) => set((state) => {
                 console.log('[VaultStore] Setting user position loading:', {
                     from: state.userPositionLoading,
@@ -200,14 +423,56 @@ export const useVaultStore = create<VaultStore>()(
                 state.userPositionLoading = loading;
             }),
 
+            // Replace the whole portfolio (one entry per identity NFT with a position)
+            setUserPositions: (positions) => set((state) => {
+                state.allUserPositions = positions;
+                if (state.selectedNFTPosition) {
+                    const selectedMint = state.selectedNFTPosition.nftMint;
+                    state.selectedNFTPosition = positions.find(p => p.nftMint.equals(selectedMint)) ?? null;
+                }
+                console.log('[VaultStore] User positions replaced:', {
+                    totalPositions: positions.length,
+                    hasSelectedPosition: !!state.selectedNFTPosition
+                });
+            }),
+
+            setPortfolioLoading: (loading) => set((state) => {
+                console.log('[VaultStore] Setting portfolio loading:', {
+                    from: state.portfolioLoading,
+                    to: loading
+                });
+                state.portfolioLoading = loading;
+            }),
+
+            clearSelectedNFTPosition: () => set((state) => {
+                state.selectedNFTPosition = null;
+            }),
+
             clearUserPositions: () => set((state) => {
                 console.log('[VaultStore] === CLEAR USER POSITIONS START ===');
                 state.selectedNFTPosition = null;
                 state.allUserPositions = [];
                 state.userPositionLoading = false;
+                state.portfolioLoading = false;
                 console.log('[VaultStore] === CLEAR USER POSITIONS END ===');
             }),
 
+            // Admin actions
+            setCloseSummary: (summary) => set((state) => {
+                console.log('[VaultStore] Setting close summary:', {
+                    vaultPda: summary?.vaultPda.toBase58(),
+                    totalShares: summary?.totalShares.toString(),
+                    tokenBalance: summary?.tokenBalance.toString(),
+                    canClose: summary?.canClose
+                });
+                state.closeSummary = summary;
+            }),
+
+            // Transaction actions
+            setTransactionState: (transactionState) => set((state) => {
+                state.transactionState = transactionState;
+            }),
+
             // UI actions
             setLoading: (loading) => set((state) => {
                 console.log('[VaultStore] Setting loading state:', {
@@ -255,11 +520,16 @@ export const useVaultStore = create<VaultStore>()(
                     state.lastNetworkHash = networkHash;
                     
                     // Reset data when network changes, but DON'T trigger loading
+                    state.vaults = {};
+                    state.selectedVaultKey = null;
                     state.vault = null;
+                    state.vaultBalance = null;
                     state.program = null;
                     state.selectedNFTPosition = null;
                     state.allUserPositions = [];
                     state.userPositionLoading = false;
+                    state.portfolioLoading = false;
+                    state.closeSummary = null;
                     state.loading = false;
                     state.error = null;
                     
@@ -320,13 +590,30 @@ export const useVaultStore = create<VaultStore>()(
                 return hasPositions;
             },
 
+            isVaultOwner: (address) => {
+                const isOwner = VaultUtils.isVaultOwner(address);
+                console.log('[VaultStore] Checking vault owner:', {
+                    address,
+                    owner: CONFIG.OWNER_ID.toBase58(),
+                    isOwner
+                });
+                return isOwner;
+            },
+
             getVaultConfig: () => {
+                const config = resolveVaultConfig(get().getSelectedVault());
                 console.log('[VaultStore] Getting vault config:', {
-                    programId: CONFIG.PROGRAM_ID,
-                    vaultPda: CONFIG.VAULT_PDA.toBase58(),
-                    assetMint: CONFIG.VAULT_ASSET_MINT.toBase58()
+                    cluster: config.cluster,
+                    programId: config.programId.toBase58(),
+                    vaultPda: config.vaultPda.toBase58(),
+                    assetMint: config.assetMint.toBase58()
                 });
-                return CONFIG;
+                return config;
+            },
+
+            getSelectedVault: () => {
+                const { vaults, selectedVaultKey } = get();
+                return selectedVaultKey ? vaults[selectedVaultKey] ?? null : null;
             },
         })),
         { name: 'vault-store' }
@@ -368,13 +655,22 @@ export const selectVaultData = (state: VaultStore) => ({
     selectedNFTPosition: state.selectedNFTPosition,
     allUserPositions: state.allUserPositions,
     userPositionLoading: state.userPositionLoading,
+    portfolioLoading: state.portfolioLoading,
 });
 
 export const selectVaultProgram = (state: VaultStore) => state.program;
 export const selectVault = (state: VaultStore) => state.vault;
+export const selectVaults = (state: VaultStore) => state.vaults;
+export const selectVaultBalance = (state: VaultStore) => state.vaultBalance;
+export const selectSelectedVaultKey = (state: VaultStore) => state.selectedVaultKey;
+export const selectSelectedVault = (state: VaultStore) =>
+    state.selectedVaultKey ? state.vaults[state.selectedVaultKey] ?? null : null;
 export const selectUserPositions = (state: VaultStore) => state.allUserPositions;
 export const selectSelectedNFTPosition = (state: VaultStore) => state.selectedNFTPosition;
 export const selectVaultLoading = (state: VaultStore) => state.loading;
 export const selectUserPositionLoading = (state: VaultStore) => state.userPositionLoading;
+export const selectPortfolioLoading = (state: VaultStore) => state.portfolioLoading;
 export const selectVaultError = (state: VaultStore) => state.error;
-export const selectVaultConfig = () => CONFIG;
\ No newline at end of file
+export const selectCloseSummary = (state: VaultStore) => state.closeSummary;
+export const selectTransactionState = (state: VaultStore) => state.transactionState;
+export const selectVaultConfig = (state: VaultStore) => resolveVaultConfig(selectSelectedVault(state));
\ No newline at end of file